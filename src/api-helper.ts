@@ -1,22 +1,32 @@
+import type { ChangelogOptions } from './changelog.js';
 import type { Octokit, components } from './types.js';
+import type { VersionBumpOptions } from './utils.js';
 import type { Context } from '@actions/github/lib/context.js';
 import type { OctokitResponse } from '@octokit/types';
 import type { Logger } from '@technote-space/github-action-log-helper';
 import fs from 'fs';
 import path from 'path';
 import { exportVariable } from '@actions/core';
-import { getSender } from './context-helper.js';
+import { getPullRequestItems, renderChangelog } from './changelog.js';
+import { getRepository, getSender } from './context-helper.js';
 import {
   getRefForUpdate,
   isPrRef,
   getBranch,
   trimRef,
-  versionCompare,
   generateNewPatchVersion,
   generateNewMajorVersion,
   generateNewMinorVersion,
   ensureNotNull,
   objectGet,
+  isDryRun,
+  getLfsPatterns,
+  isLfsTracked,
+  isLfsPointer,
+  findLastVersionTag,
+  getNextVersion,
+  mapWithConcurrency,
+  getHeadCommitSha,
 } from './utils.js';
 
 type GitGetCommitResponseData = components['schemas']['git-commit'];
@@ -28,6 +38,8 @@ type PullsListResponseData = components['schemas']['pull-request-simple'];
 type PullsCreateResponseData = components['schemas']['pull-request'];
 type PullsUpdateResponseData = components['schemas']['pull-request'];
 type UserResponseData = components['schemas']['public-user'];
+type CommitResponseData = components['schemas']['commit'];
+type RateLimitResponseData = components['schemas']['rate-limit'];
 
 type PullsUpdateParams = {
   body?: string;
@@ -50,6 +62,22 @@ type PullsInfo = {
   isPrCreated: boolean;
 };
 
+// sha: null to delete the file
+// mode: 100644 (file), 100755 (executable), 120000 (symlink), 160000 (submodule), 040000 (tree)
+export type TreeEntry = {
+  path: string;
+  mode: '100644' | '100755' | '040000' | '160000' | '120000';
+  type: 'blob' | 'tree' | 'commit';
+  sha: string | null;
+};
+
+type CommitMethod = 'rest' | 'graphql';
+
+type FileChanges = {
+  additions: Array<{ path: string; contents: string }>;
+  deletions: Array<{ path: string }>;
+};
+
 type PullsListParams = {
   base?: string;
   direction?: 'asc' | 'desc';
@@ -62,17 +90,38 @@ export default class ApiHelper {
   private readonly sender?: string | undefined             = undefined;
   private readonly suppressBPError?: boolean | undefined   = undefined;
   private readonly refForUpdate?: string | undefined       = undefined;
+  private readonly dryRun?: boolean | undefined            = undefined;
+  private readonly maxBlobSize?: number | undefined        = undefined;
+  private readonly blobConcurrency: number                 = 4; // eslint-disable-line no-magic-numbers
+  private readonly commitMethod: CommitMethod              = 'rest';
+  private readonly commitRetry: number                     = 0;
   private prCache: { [key: number]: PullsGetResponseData } = {};
 
+  // dryRun: refs, pull requests and comments are not updated (default: UTILS_DRY_RUN)
+  // maxBlobSize: files larger than this size (bytes) are not uploaded (e.g. 100MB: limit of the API)
+  // blobConcurrency: number of blobs created at the same time (default: 4)
+  // commitMethod: graphql to create commits signed by GitHub with createCommitOnBranch mutation (default: rest)
+  // commitRetry: max number of retries of commit when the branch is updated by others while committing (default: 0)
   constructor(
     private readonly octokit: Octokit,
     private readonly context: Context,
     private readonly logger?: Logger,
-    options?: { sender?: string; refForUpdate?: string; suppressBPError?: boolean },
+    options?: { sender?: string; refForUpdate?: string; suppressBPError?: boolean; dryRun?: boolean; maxBlobSize?: number; blobConcurrency?: number; commitMethod?: CommitMethod; commitRetry?: number },
   ) {
     this.sender          = options?.sender;
     this.refForUpdate    = options?.refForUpdate;
     this.suppressBPError = options?.suppressBPError;
+    this.dryRun          = options?.dryRun;
+    this.maxBlobSize     = options?.maxBlobSize;
+    if (options?.blobConcurrency) {
+      this.blobConcurrency = options.blobConcurrency;
+    }
+    if (options?.commitMethod) {
+      this.commitMethod = options.commitMethod;
+    }
+    if (options?.commitRetry) {
+      this.commitRetry = options.commitRetry;
+    }
   }
 
   private getResponseData = async <T>(response: Promise<OctokitResponse<T>>): Promise<T> => (await response).data;
@@ -83,6 +132,10 @@ export default class ApiHelper {
     }
   };
 
+  public isDryRun = (): boolean => this.dryRun ?? isDryRun();
+
+  private logDryRun = (method: string, payload: object): void => this.callLogger(logger => logger.info('[dry-run] %s: %s', method, JSON.stringify(payload)));
+
   private getSender = (): string | false => this.sender ? this.sender : getSender(this.context);
 
   public getRefForUpdate = async(encode: boolean): Promise<string> => {
@@ -92,24 +145,50 @@ export default class ApiHelper {
     return encode ? encodeURIComponent(ref) : ref;
   };
 
-  private createBlob = async(rootDir: string, filepath: string): Promise<{ path: string; sha: string }> => {
-    const blob = await this.octokit.rest.git.createBlob({
-      ...this.context.repo,
-      content: Buffer.from(fs.readFileSync(path.resolve(rootDir, filepath), 'utf8')).toString('base64'),
-      encoding: 'base64',
-    });
+  private createBlob = async(content: Buffer): Promise<string> => (await this.octokit.rest.git.createBlob({
+    ...this.context.repo,
+    content: content.toString('base64'),
+    encoding: 'base64',
+  })).data.sha;
+
+  private getFileStats = (rootDir: string, filepath: string): fs.Stats | undefined => fs.lstatSync(path.resolve(rootDir, filepath), { throwIfNoEntry: false });
+
+  private isRegularFile = (rootDir: string, filepath: string): boolean => !!this.getFileStats(rootDir, filepath)?.isFile();
+
+  // mode is detected from the working copy (deleted file, executable, symlink or submodule)
+  private getTreeEntry = async(rootDir: string, filepath: string): Promise<TreeEntry> => {
+    const fullpath = path.resolve(rootDir, filepath);
+    const stats    = this.getFileStats(rootDir, filepath);
+    if (!stats) {
+      return { path: filepath, mode: '100644', type: 'blob', sha: null };
+    }
+
+    if (stats.isSymbolicLink()) {
+      return { path: filepath, mode: '120000', type: 'blob', sha: await this.createBlob(Buffer.from(await fs.promises.readlink(fullpath))) };
+    }
+
+    if (stats.isDirectory()) {
+      const sha = getHeadCommitSha(fullpath);
+      if (!sha) {
+        throw new Error(`Directory is not a submodule: ${filepath}`);
+      }
+
+      return { path: filepath, mode: '160000', type: 'commit', sha };
+    }
 
     return {
       path: filepath,
-      sha: blob.data.sha,
+      mode: stats.mode & 0o111 ? '100755' : '100644', // eslint-disable-line no-magic-numbers
+      type: 'blob',
+      sha: await this.createBlob(await fs.promises.readFile(fullpath)),
     };
   };
 
   private getCommitSha = (): string => this.context.payload.pull_request ? this.context.payload.pull_request.head.sha : this.context.sha;
 
-  private getCommit = async(): Promise<GitGetCommitResponseData> => this.getResponseData(this.octokit.rest.git.getCommit({
+  private getCommit = async(sha = this.getCommitSha()): Promise<GitGetCommitResponseData> => this.getResponseData(this.octokit.rest.git.getCommit({
     ...this.context.repo,
-    'commit_sha': this.getCommitSha(),
+    'commit_sha': sha,
   }));
 
   private getPR = async(): Promise<PullsGetResponseData> => {
@@ -124,23 +203,122 @@ export default class ApiHelper {
     return this.prCache[key]!;
   };
 
-  public filesToBlobs = async(rootDir: string, files: Array<string>): Promise<Array<{ path: string; sha: string }>> => await Promise.all(files.map(file => this.createBlob(rootDir, file)));
+  // pointer files are less than 1024 bytes, so large files (LFS objects) are not read
+  private isLfsPointerFile = (rootDir: string, filepath: string): boolean => this.getFileStats(rootDir, filepath)!.size < 1024 && isLfsPointer(fs.readFileSync(path.resolve(rootDir, filepath))); // eslint-disable-line no-magic-numbers
+
+  // LFS tracked files (.gitattributes of rootDir) are committed only if they are pointer files, because the API cannot upload LFS objects
+  private checkLfsFiles = (rootDir: string, files: Array<string>): void => {
+    const lfsPatterns = getLfsPatterns(rootDir);
+    const invalid     = files.filter(file => isLfsTracked(file, lfsPatterns) && this.isRegularFile(rootDir, file) && !this.isLfsPointerFile(rootDir, file));
+    if (invalid.length) {
+      throw new Error(`Files tracked by Git LFS are not pointer files: ${invalid.join(', ')}`);
+    }
+  };
+
+  private checkBlobSize = (rootDir: string, files: Array<string>): void => {
+    if (undefined === this.maxBlobSize) {
+      return;
+    }
+
+    const invalid = files.filter(file => this.isRegularFile(rootDir, file) && this.getFileStats(rootDir, file)!.size > this.maxBlobSize!);
+    if (invalid.length) {
+      throw new Error(`Files exceed the max blob size (${this.maxBlobSize} bytes): ${invalid.join(', ')}`);
+    }
+  };
 
-  public createTree = async(blobs: Array<{ path: string; sha: string }>): Promise<GitCreateTreeResponseData> => this.getResponseData(this.octokit.rest.git.createTree({
+  // files are read when their blobs are created, so at most blobConcurrency files are loaded at the same time
+  // entries (e.g. submodule commit) are used as they are
+  public filesToBlobs = async(rootDir: string, files: Array<string | TreeEntry>): Promise<Array<TreeEntry>> => {
+    const paths = files.filter((file): file is string => typeof file === 'string');
+    this.checkLfsFiles(rootDir, paths);
+    this.checkBlobSize(rootDir, paths);
+
+    const results = await mapWithConcurrency(files, this.blobConcurrency, async file => typeof file === 'string' ? this.getTreeEntry(rootDir, file) : file);
+    const error   = results.find((result): result is PromiseRejectedResult => 'rejected' === result.status);
+    if (error) {
+      throw error.reason;
+    }
+
+    return results.map(result => (result as PromiseFulfilledResult<TreeEntry>).value);
+  };
+
+  public createTree = async(blobs: Array<{ path: string; sha: string | null } & Partial<TreeEntry>>, baseSha = this.getCommitSha()): Promise<GitCreateTreeResponseData> => this.getResponseData(this.octokit.rest.git.createTree({
     ...this.context.repo,
-    'base_tree': ensureNotNull(objectGet((await this.getCommit()), 'tree.sha')),
+    'base_tree': ensureNotNull(objectGet((await this.getCommit(baseSha)), 'tree.sha')),
     tree: blobs.map(blob => ({
       path: blob.path,
-      type: 'blob',
-      mode: '100644',
+      type: blob.type ?? 'blob',
+      mode: blob.mode ?? '100644',
       sha: blob.sha,
     })),
   }));
 
-  public createCommit = async(commitMessage: string, tree: GitCreateTreeResponseData): Promise<GitCreateCommitResponseData> => this.getResponseData(this.octokit.rest.git.createCommit({
+  // createCommitOnBranch cannot change modes, so symlinks and submodules are not supported
+  private getFileChanges = async(rootDir: string, files: Array<string | TreeEntry>): Promise<FileChanges> => {
+    const paths = files.filter((file): file is string => typeof file === 'string');
+    this.checkLfsFiles(rootDir, paths);
+    this.checkBlobSize(rootDir, paths);
+
+    const changes: FileChanges = { additions: [], deletions: [] };
+    for (const file of files) {
+      const filepath = typeof file === 'string' ? file : file.path;
+      if (typeof file === 'string' ? !this.getFileStats(rootDir, file) : null === file.sha) {
+        changes.deletions.push({ path: filepath });
+      } else if (typeof file === 'string' && this.isRegularFile(rootDir, file)) {
+        changes.additions.push({ path: filepath, contents: (await fs.promises.readFile(path.resolve(rootDir, file))).toString('base64') });
+      } else {
+        throw new Error(`Only regular files can be committed by GraphQL API: ${filepath}`);
+      }
+    }
+
+    return changes;
+  };
+
+  // expectedHeadOid: commit is rejected if the head of the branch is not this commit
+  public createCommitOnBranch = async(rootDir: string, commitMessage: string, files: Array<string | TreeEntry>, refName: string, expectedHeadOid: string): Promise<string | null> => {
+    const [headline, ...body] = commitMessage.split(/\r?\n/);
+    const input               = {
+      branch: {
+        repositoryNameWithOwner: getRepository(this.context),
+        branchName: refName.startsWith('refs/') ? refName : `refs/${refName}`,
+      },
+      message: {
+        headline: headline!,
+        body: body.join('\n').trim(),
+      },
+      expectedHeadOid,
+      fileChanges: await this.getFileChanges(rootDir, files),
+    };
+    if (this.isDryRun()) {
+      this.logDryRun('graphql.createCommitOnBranch', { ...input, fileChanges: undefined });
+      return null;
+    }
+
+    try {
+      const response = await this.octokit.graphql<{ createCommitOnBranch: { commit: { oid: string } } }>(`
+        mutation($input: CreateCommitOnBranchInput!) {
+          createCommitOnBranch(input: $input) {
+            commit {
+              oid
+            }
+          }
+        }
+      `, { input });
+      return response.createCommitOnBranch.commit.oid;
+    } catch (error) {
+      if (this.suppressBPError === true && this.isProtectedBranchError(error as Error)) {
+        this.callLogger(logger => logger.warn('Branch is protected.'));
+        return null;
+      }
+
+      throw error;
+    }
+  };
+
+  public createCommit = async(commitMessage: string, tree: GitCreateTreeResponseData, parentSha = this.getCommitSha()): Promise<GitCreateCommitResponseData> => this.getResponseData(this.octokit.rest.git.createCommit({
     ...this.context.repo,
     tree: tree.sha,
-    parents: [this.getCommitSha()],
+    parents: [parentSha],
     message: commitMessage,
   }));
 
@@ -156,13 +334,19 @@ export default class ApiHelper {
   };
 
   public updateRef = async(commit: GitCreateCommitResponseData, refName: string, force: boolean): Promise<boolean> => {
+    const params = {
+      ...this.context.repo,
+      ref: refName,
+      sha: ensureNotNull(commit.sha),
+      force,
+    };
+    if (this.isDryRun()) {
+      this.logDryRun('git.updateRef', params);
+      return true;
+    }
+
     try {
-      await this.octokit.rest.git.updateRef({
-        ...this.context.repo,
-        ref: refName,
-        sha: ensureNotNull(commit.sha),
-        force,
-      });
+      await this.octokit.rest.git.updateRef(params);
 
       return true;
     } catch (error) {
@@ -177,18 +361,30 @@ export default class ApiHelper {
   };
 
   public createRef = async(commit: GitCreateCommitResponseData, refName: string): Promise<void> => {
-    await this.octokit.rest.git.createRef({
+    const params = {
       ...this.context.repo,
       ref: refName,
       sha: ensureNotNull(commit.sha),
-    });
+    };
+    if (this.isDryRun()) {
+      this.logDryRun('git.createRef', params);
+      return;
+    }
+
+    await this.octokit.rest.git.createRef(params);
   };
 
   public deleteRef = async(refName: string): Promise<void> => {
-    await this.octokit.rest.git.deleteRef({
+    const params = {
       ...this.context.repo,
       ref: refName,
-    });
+    };
+    if (this.isDryRun()) {
+      this.logDryRun('git.deleteRef', params);
+      return;
+    }
+
+    await this.octokit.rest.git.deleteRef(params);
   };
 
   public findPullRequest = async(branchName: string): Promise<PullsListResponseData | null> => {
@@ -213,19 +409,59 @@ export default class ApiHelper {
     }),
   );
 
-  public pullsCreate = async(branchName: string, detail: PullsCreateParams): Promise<PullsCreateResponseData> => this.getResponseData(this.octokit.rest.pulls.create({
-    ...this.context.repo,
-    head: `${this.context.repo.owner}:${getBranch(branchName, false)}`,
-    base: (await this.getRefForUpdate(false)).replace(/^heads\//, ''),
-    ...detail,
-  }));
+  public pullsCreate = async(branchName: string, detail: PullsCreateParams): Promise<PullsCreateResponseData> => {
+    const params = {
+      ...this.context.repo,
+      head: `${this.context.repo.owner}:${getBranch(branchName, false)}`,
+      base: (await this.getRefForUpdate(false)).replace(/^heads\//, ''),
+      ...detail,
+    };
+    if (this.isDryRun()) {
+      this.logDryRun('pulls.create', params);
+      // synthetic pull request which has not been created
+      return {
+        id: 0,
+        number: 0,
+        'html_url': '',
+        'commits_url': '',
+        'comments_url': '',
+        title: params.title,
+        body: params.body ?? null,
+        state: 'open',
+        draft: params.draft,
+        head: { ref: getBranch(branchName, false) },
+        base: { ref: params.base },
+      } as PullsCreateResponseData;
+    }
 
-  public pullsUpdate = async(number: number, detail: PullsUpdateParams): Promise<PullsUpdateResponseData> => this.getResponseData(this.octokit.rest.pulls.update({
-    ...this.context.repo,
-    'pull_number': number,
-    state: 'open',
-    ...detail,
-  }));
+    return this.getResponseData(this.octokit.rest.pulls.create(params));
+  };
+
+  public pullsUpdate = async(number: number, detail: PullsUpdateParams): Promise<PullsUpdateResponseData> => {
+    const params = {
+      ...this.context.repo,
+      'pull_number': number,
+      state: 'open' as const,
+      ...detail,
+    };
+    if (this.isDryRun()) {
+      this.logDryRun('pulls.update', params);
+      // synthetic pull request which has not been updated
+      return {
+        id: 0,
+        number,
+        'html_url': '',
+        'commits_url': '',
+        'comments_url': '',
+        title: params.title,
+        body: params.body ?? null,
+        state: params.state,
+        draft: params.draft,
+      } as PullsUpdateResponseData;
+    }
+
+    return this.getResponseData(this.octokit.rest.pulls.update(params));
+  };
 
   public getBranchInfo = (branch: string): { branchName: string; headName: string; refName: string } => {
     const branchName = getBranch(branch, false);
@@ -275,18 +511,23 @@ export default class ApiHelper {
       return false;
     }
 
-    await this.octokit.rest.issues.createComment({
+    const params = {
       ...this.context.repo,
       'issue_number': pullRequest.number,
       body,
-    });
+    };
+    if (this.isDryRun()) {
+      this.logDryRun('issues.createComment', params);
+      return true;
+    }
 
+    await this.octokit.rest.issues.createComment(params);
     return true;
   };
 
   private isProtectedBranchError = (error: Error): boolean => /required status checks?.* (is|are) expected/i.test(error.message);
 
-  private checkDiff = (files: Array<string>): boolean => {
+  private checkDiff = (files: Array<string | TreeEntry>): boolean => {
     if (!files.length) {
       this.callLogger(logger => logger.info('There is no diff.'));
       return false;
@@ -295,27 +536,70 @@ export default class ApiHelper {
     return true;
   };
 
-  private prepareCommit = async(rootDir: string, commitMessage: string, files: Array<string>): Promise<GitCreateCommitResponseData> => {
+  private createBlobs = async(rootDir: string, files: Array<string | TreeEntry>): Promise<Array<TreeEntry>> => {
     this.callLogger(logger => logger.startProcess('Creating blobs...'));
-    const blobs = await this.filesToBlobs(rootDir, files);
+    return this.filesToBlobs(rootDir, files);
+  };
 
+  private createCommitFromBlobs = async(commitMessage: string, blobs: Array<TreeEntry>, baseSha = this.getCommitSha()): Promise<GitCreateCommitResponseData> => {
     this.callLogger(logger => logger.startProcess('Creating tree...'));
-    const tree = await this.createTree(blobs);
+    const tree = await this.createTree(blobs, baseSha);
 
     this.callLogger(logger => logger.startProcess('Creating commit... [%s]', tree.sha));
-    return this.createCommit(commitMessage, tree);
+    return this.createCommit(commitMessage, tree, baseSha);
   };
 
-  public commit = async(rootDir: string, commitMessage: string, files: Array<string>): Promise<boolean> => {
+  private prepareCommit = async(rootDir: string, commitMessage: string, files: Array<string | TreeEntry>): Promise<GitCreateCommitResponseData> => this.createCommitFromBlobs(commitMessage, await this.createBlobs(rootDir, files));
+
+  private isRefRaceError = (error: Error): boolean => /not a fast[- ]forward|Expected branch to point to/i.test(error.message);
+
+  private getChangedPaths = async(base: string, head: string): Promise<Array<string>> => (await this.octokit.paginate(this.octokit.rest.repos.compareCommitsWithBasehead, {
+    ...this.context.repo,
+    basehead: `${base}...${head}`,
+  }, response => response.data.files ?? [])).flatMap(file => file.previous_filename ? [file.filename, file.previous_filename] : [file.filename]);
+
+  // when the branch is updated by others, the commit is retried on the new head unless the same paths are changed
+  private withCommitRetry = async <T>(refName: string, paths: Array<string>, callback: (baseSha: string) => Promise<T>): Promise<T> => {
+    let baseSha = this.getCommitSha();
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await callback(baseSha);
+      } catch (error) {
+        const head = attempt < this.commitRetry && this.isRefRaceError(error as Error) ? (await this.getRef(refName))?.object.sha : undefined;
+        if (!head) {
+          throw error;
+        }
+
+        const conflicts = (await this.getChangedPaths(baseSha, head)).filter(filepath => paths.includes(filepath));
+        if (conflicts.length) {
+          throw new Error(`Files were changed on the branch by others: ${conflicts.join(', ')}`);
+        }
+
+        this.callLogger(logger => logger.warn('The branch was updated by others. Retrying on %s... (%d/%d)', head, attempt + 1, this.commitRetry));
+        baseSha = head;
+      }
+    }
+  };
+
+  public commit = async(rootDir: string, commitMessage: string, files: Array<string | TreeEntry>): Promise<boolean> => {
     if (!this.checkDiff(files)) {
       return false;
     }
 
-    const commit = await this.prepareCommit(rootDir, commitMessage, files);
-    const ref    = await this.getRefForUpdate(false);
+    if ('graphql' === this.commitMethod) {
+      return this.commitOnBranch(rootDir, commitMessage, files);
+    }
+
+    const blobs                 = await this.createBlobs(rootDir, files);
+    const ref                   = await this.getRefForUpdate(false);
+    const { commit, isUpdated } = await this.withCommitRetry(ref, blobs.map(blob => blob.path), async baseSha => {
+      const commit = await this.createCommitFromBlobs(commitMessage, blobs, baseSha);
 
-    this.callLogger(logger => logger.startProcess('Updating ref... [%s] [%s]', ref, commit.sha));
-    if (await this.updateRef(commit, ref, false)) {
+      this.callLogger(logger => logger.startProcess('Updating ref... [%s] [%s]', ref, commit.sha));
+      return { commit, isUpdated: await this.updateRef(commit, ref, false) };
+    });
+    // in dry-run, no branch points to the commit
+    if (isUpdated && !this.isDryRun()) {
       process.env.GITHUB_SHA = commit.sha;
       exportVariable('GITHUB_SHA', commit.sha);
     }
@@ -324,13 +608,28 @@ export default class ApiHelper {
     return true;
   };
 
-  public createPR = async(rootDir: string, commitMessage: string, files: Array<string>, createBranchName: string, detail: PullsCreateParams): Promise<boolean | PullsInfo> => {
+  private commitOnBranch = async(rootDir: string, commitMessage: string, files: Array<string | TreeEntry>): Promise<boolean> => {
+    const ref = await this.getRefForUpdate(false);
+
+    this.callLogger(logger => logger.startProcess('Creating commit on branch... [%s]', ref));
+    const sha = await this.withCommitRetry(ref, files.map(file => typeof file === 'string' ? file : file.path), baseSha => this.createCommitOnBranch(rootDir, commitMessage, files, ref, baseSha));
+    if (sha) {
+      process.env.GITHUB_SHA = sha;
+      exportVariable('GITHUB_SHA', sha);
+    }
+
+    this.callLogger(logger => logger.endProcess());
+    return true;
+  };
+
+  public createPR = async(rootDir: string, commitMessage: string, files: Array<string | TreeEntry>, createBranchName: string, detail: PullsCreateParams): Promise<boolean | PullsInfo> => {
     if (!this.checkDiff(files)) {
       return false;
     }
 
     const { branchName, headName, refName } = this.getBranchInfo(createBranchName);
-    const commit                            = await this.prepareCommit(rootDir, commitMessage, files);
+    // graphql: the branch is reset to the commit of the context, and then the commit is created on it
+    const commit                            = 'graphql' === this.commitMethod ? await this.getCommit() : await this.prepareCommit(rootDir, commitMessage, files);
     const ref                               = await this.getRef(headName);
     if (null === ref) {
       this.callLogger(logger => logger.startProcess('Creating reference... [%s] [%s]', refName, commit.sha));
@@ -340,6 +639,11 @@ export default class ApiHelper {
       await this.updateRef(commit, headName, true);
     }
 
+    if ('graphql' === this.commitMethod) {
+      this.callLogger(logger => logger.startProcess('Creating commit on branch... [%s]', refName));
+      await this.createCommitOnBranch(rootDir, commitMessage, files, refName, commit.sha);
+    }
+
     return this.pullsCreateOrUpdate(branchName, detail);
   };
 
@@ -401,11 +705,62 @@ export default class ApiHelper {
     },
   )).map((item): string => trimRef(item.ref));
 
-  public getLastTag = async(): Promise<string> => 'v' + ((await this.getTags()).filter(tag => /^v?\d+(\.\d+)*$/.test(tag)).sort(versionCompare).reverse()[0]?.replace(/^v/, '') ?? '0.0.0');
+  public getLastTag = async(): Promise<string> => 'v' + (findLastVersionTag(await this.getTags())?.replace(/^v/, '') ?? '0.0.0');
 
   public getNewPatchVersion = async(): Promise<string> => generateNewPatchVersion(await this.getLastTag());
 
   public getNewMinorVersion = async(): Promise<string> => generateNewMinorVersion(await this.getLastTag());
 
   public getNewMajorVersion = async(): Promise<string> => generateNewMajorVersion(await this.getLastTag());
+
+  // commits between from (excluded) and to (all commits if from is not given)
+  private getCommits = async(from: string | undefined, to: string): Promise<Array<CommitResponseData>> => from ?
+    await this.octokit.paginate(this.octokit.rest.repos.compareCommitsWithBasehead, {
+      ...this.context.repo,
+      basehead: `${from}...${to}`,
+    }, response => response.data.commits) :
+    await this.octokit.paginate(this.octokit.rest.repos.listCommits, {
+      ...this.context.repo,
+      sha: to,
+    });
+
+  // requests to get rate limit do not count against the quota
+  public getRateLimit = async(resource: 'core' | 'graphql' | 'search' = 'core'): Promise<RateLimitResponseData> => {
+    const rateLimit = (await this.getResponseData(this.octokit.rest.rateLimit.get())).resources[resource];
+    if (!rateLimit) {
+      throw new Error(`Rate limit is not available: ${resource}`);
+    }
+
+    return rateLimit;
+  };
+
+  // by Conventional Commits since the last tag (undefined if there is no commit to release)
+  public getNextVersion = async(options?: VersionBumpOptions): Promise<string | undefined> => {
+    const tag = findLastVersionTag(await this.getTags());
+    return getNextVersion(tag ?? 'v0.0.0', (await this.getCommits(tag, this.getCommitSha())).map(commit => commit.commit.message), options);
+  };
+
+  // pull requests merged by commits between from (default: last version tag) and to (default: commit of the context)
+  public getMergedPullRequests = async(from?: string, to?: string, concurrency = 4): Promise<Array<PullsListResponseData>> => { // eslint-disable-line no-magic-numbers
+    const commits = await this.getCommits(from ?? findLastVersionTag(await this.getTags()), to ?? this.getCommitSha());
+    const results = await mapWithConcurrency(commits, concurrency, async commit => this.octokit.paginate(this.octokit.rest.repos.listPullRequestsAssociatedWithCommit, {
+      ...this.context.repo,
+      'commit_sha': commit.sha,
+    }));
+    const error   = results.find((result): result is PromiseRejectedResult => 'rejected' === result.status);
+    if (error) {
+      throw error.reason;
+    }
+
+    const pulls = new Map<number, PullsListResponseData>();
+    results.flatMap(result => (result as PromiseFulfilledResult<Array<PullsListResponseData>>).value).filter(pull => pull.merged_at).forEach(pull => pulls.set(pull.number, pull));
+    return [...pulls.values()];
+  };
+
+  // grouped by Conventional Commits type of title or labels of merged pull requests
+  public generateChangelog = async(version: string, options?: ChangelogOptions & { from?: string; to?: string; date?: string }): Promise<string> => {
+    const from = options?.from ?? findLastVersionTag(await this.getTags());
+    const to   = options?.to ?? this.getCommitSha();
+    return renderChangelog(version, getPullRequestItems(await this.getMergedPullRequests(from, to)), { ...options, from, to });
+  };
 }
@@ -1,4 +1,6 @@
 /* eslint-disable no-magic-numbers */
+import fs from 'fs';
+import os from 'os';
 import path from 'path';
 import { components } from '@octokit/openapi-types';
 import { Logger } from '@technote-space/github-action-log-helper';
@@ -10,9 +12,11 @@ import {
   getApiFixture,
   spyOnStdout,
   stdoutCalledWith,
+  spyOnExportVariable,
+  exportVariableCalledWith,
 } from '@technote-space/github-action-test-helper';
 import nock from 'nock';
-import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { ApiHelper } from '../src/index.js';
 
 type GitCreateCommitResponseData = components['schemas']['git-commit'];
@@ -260,6 +264,84 @@ describe('ApiHelper with params', () => {
     });
   });
 
+  describe('getNextVersion', () => {
+    it('should get next version from commits since last tag', async() => {
+      nock('https://api.github.com')
+        .persist()
+        .get('/repos/hello/world/git/matching-refs/tags%2F')
+        .reply(200, () => getApiFixture(rootDir, 'repos.git.matching-refs'))
+        .get('/repos/hello/world/compare/v2.0.0...7638417db6d59f3c431d3e1f261cc637155684cd')
+        .reply(200, () => ({ commits: [{ commit: { message: 'fix: a' } }, { commit: { message: 'feat: b\n\nbody' } }] }));
+
+      expect(await helper.getNextVersion()).toBe('v2.1.0');
+      expect(await helper.getNextVersion({ types: { fix: 'patch' } })).toBe('v2.0.1');
+    });
+
+    it('should get next version from all commits', async() => {
+      nock('https://api.github.com')
+        .persist()
+        .get('/repos/hello/world/git/matching-refs/tags%2F')
+        .reply(200, () => [])
+        .get('/repos/hello/world/commits?sha=7638417db6d59f3c431d3e1f261cc637155684cd')
+        .reply(200, () => [{ commit: { message: 'feat!: a' } }, { commit: { message: 'Initial commit' } }]);
+
+      expect(await helper.getNextVersion()).toBe('v0.1.0');
+    });
+
+    it('should return undefined', async() => {
+      nock('https://api.github.com')
+        .persist()
+        .get('/repos/hello/world/git/matching-refs/tags%2F')
+        .reply(200, () => [])
+        .get('/repos/hello/world/commits?sha=7638417db6d59f3c431d3e1f261cc637155684cd')
+        .reply(200, () => [{ commit: { message: 'chore: a' } }]);
+
+      expect(await helper.getNextVersion()).toBeUndefined();
+    });
+  });
+
+  describe('getMergedPullRequests', () => {
+    it('should get merged pull requests', async() => {
+      nock('https://api.github.com')
+        .persist()
+        .get('/repos/hello/world/git/matching-refs/tags%2F')
+        .reply(200, () => getApiFixture(rootDir, 'repos.git.matching-refs'))
+        .get('/repos/hello/world/compare/v2.0.0...7638417db6d59f3c431d3e1f261cc637155684cd')
+        .reply(200, () => ({ commits: [{ sha: 'sha1' }, { sha: 'sha2' }, { sha: 'sha3' }] }))
+        .get('/repos/hello/world/commits/sha1/pulls')
+        .reply(200, () => [{ number: 1, title: 'feat: add feature', labels: [], user: { login: 'octocat' }, 'merged_at': '2023-01-01T00:00:00Z' }])
+        .get('/repos/hello/world/commits/sha2/pulls')
+        .reply(200, () => [{ number: 1, title: 'feat: add feature', labels: [], user: { login: 'octocat' }, 'merged_at': '2023-01-01T00:00:00Z' }, { number: 2, title: 'open', labels: [], 'merged_at': null }])
+        .get('/repos/hello/world/commits/sha3/pulls')
+        .reply(200, () => [{ number: 3, title: 'Fix bug', labels: [{ name: 'bug' }], user: { login: 'octocat' }, 'merged_at': '2023-01-02T00:00:00Z' }]);
+
+      expect((await helper.getMergedPullRequests()).map(pull => pull.number)).toEqual([1, 3]);
+      expect(await helper.generateChangelog('v2.1.0', { date: '2023-01-03' })).toBe('## v2.1.0 (2023-01-03)\n\n### Features\n\n- add feature (#1)\n\n### Bug Fixes\n\n- Fix bug (#3)\n');
+    });
+
+    it('should get merged pull requests between refs', async() => {
+      nock('https://api.github.com')
+        .persist()
+        .get('/repos/hello/world/commits?sha=main')
+        .reply(200, () => [{ sha: 'sha1' }])
+        .get('/repos/hello/world/commits/sha1/pulls')
+        .reply(200, () => [{ number: 1, title: 'Initial', labels: [], 'merged_at': '2023-01-01T00:00:00Z' }]);
+
+      expect(await helper.generateChangelog('v1.0.0', { from: '', to: 'main', headerTemplate: '## ${version} ${to}', otherTitle: 'Others' })).toBe('## v1.0.0 main\n\n### Others\n\n- Initial (#1)\n');
+    });
+
+    it('should throw error', async() => {
+      nock('https://api.github.com')
+        .persist()
+        .get('/repos/hello/world/compare/v1.0.0...v2.0.0')
+        .reply(200, () => ({ commits: [{ sha: 'sha1' }] }))
+        .get('/repos/hello/world/commits/sha1/pulls')
+        .reply(404, { message: 'Not Found' });
+
+      await expect(helper.getMergedPullRequests('v1.0.0', 'v2.0.0')).rejects.toThrow('Not Found');
+    });
+  });
+
   describe('getNewPatchVersion', () => {
     it('should get tags', async() => {
       nock('https://api.github.com')
@@ -345,3 +427,571 @@ describe('ApiHelper without logger', () => {
     });
   });
 });
+
+describe('ApiHelper with dry-run', () => {
+  disableNetConnect(nock);
+  testEnv();
+  beforeEach(() => {
+    Logger.resetForTesting();
+  });
+
+  const helper = new ApiHelper(octokit, context, logger, { dryRun: true });
+
+  it('should not update ref', async() => {
+    const mockStdout = spyOnStdout();
+
+    expect(await helper.updateRef(createCommitResponse, 'heads/test', true)).toBe(true);
+
+    stdoutCalledWith(mockStdout, [
+      '> [dry-run] git.updateRef: {"owner":"hello","repo":"world","ref":"heads/test","sha":"","force":true}',
+    ]);
+  });
+
+  it('should not export commit sha', async() => {
+    const mockEnv          = spyOnExportVariable();
+    process.env.GITHUB_SHA = 'sha';
+    nock('https://api.github.com')
+      .persist()
+      .post('/repos/hello/world/git/blobs')
+      .reply(201, () => getApiFixture(rootDir, 'repos.git.blobs'))
+      .get('/repos/hello/world/git/commits/7638417db6d59f3c431d3e1f261cc637155684cd')
+      .reply(200, () => getApiFixture(rootDir, 'repos.git.commits.get'))
+      .post('/repos/hello/world/git/trees')
+      .reply(201, () => getApiFixture(rootDir, 'repos.git.trees'))
+      .post('/repos/hello/world/git/commits')
+      .reply(201, () => getApiFixture(rootDir, 'repos.git.commits'));
+
+    expect(await helper.commit(rootDir, 'test commit message', ['build1.json'])).toBe(true);
+    expect(process.env.GITHUB_SHA).toBe('sha');
+    expect(mockEnv).not.toBeCalled();
+  });
+
+  it('should not create ref', async() => {
+    const mockStdout = spyOnStdout();
+
+    await helper.createRef(createCommitResponse, 'refs/heads/featureA');
+
+    stdoutCalledWith(mockStdout, [
+      '> [dry-run] git.createRef: {"owner":"hello","repo":"world","ref":"refs/heads/featureA","sha":""}',
+    ]);
+  });
+
+  it('should not delete ref', async() => {
+    const mockStdout = spyOnStdout();
+
+    await helper.deleteRef('heads/featureA');
+
+    stdoutCalledWith(mockStdout, [
+      '> [dry-run] git.deleteRef: {"owner":"hello","repo":"world","ref":"heads/featureA"}',
+    ]);
+  });
+
+  it('should not create pull request', async() => {
+    const mockStdout = spyOnStdout();
+
+    expect(await helper.pullsCreate('test/branch', { title: 'test title', body: 'test body' })).toMatchObject({
+      number: 0,
+      title: 'test title',
+      body: 'test body',
+      head: { ref: 'test/branch' },
+      base: { ref: 'test' },
+    });
+
+    stdoutCalledWith(mockStdout, [
+      '> [dry-run] pulls.create: {"owner":"hello","repo":"world","head":"hello:test/branch","base":"test","title":"test title","body":"test body"}',
+    ]);
+  });
+
+  it('should not update pull request', async() => {
+    const mockStdout = spyOnStdout();
+
+    expect(await helper.pullsUpdate(1347, { title: 'test title', body: 'test body' })).toMatchObject({
+      number: 1347,
+      title: 'test title',
+      body: 'test body',
+      state: 'open',
+    });
+
+    stdoutCalledWith(mockStdout, [
+      '> [dry-run] pulls.update: {"owner":"hello","repo":"world","pull_number":1347,"state":"open","title":"test title","body":"test body"}',
+    ]);
+  });
+
+  it('should not close pull request', async() => {
+    const mockStdout = spyOnStdout();
+    nock('https://api.github.com')
+      .get('/repos/hello/world/pulls?head=hello%3Aclose%2Ftest')
+      .reply(200, () => getApiFixture(rootDir, 'pulls.list'));
+
+    await helper.closePR('close/test');
+
+    stdoutCalledWith(mockStdout, [
+      '::group::Closing PullRequest... [close/test]',
+      '> [dry-run] pulls.update: {"owner":"hello","repo":"world","pull_number":1347,"state":"closed"}',
+      '::endgroup::',
+      '::group::Deleting reference... [refs/heads/close/test]',
+      '> [dry-run] git.deleteRef: {"owner":"hello","repo":"world","ref":"heads/close/test"}',
+      '::endgroup::',
+    ]);
+  });
+
+  it('should not create comment to pull request', async() => {
+    const mockStdout = spyOnStdout();
+    nock('https://api.github.com')
+      .get('/repos/hello/world/pulls?head=hello%3Atest')
+      .reply(200, () => getApiFixture(rootDir, 'pulls.list'));
+
+    expect(await helper.createCommentToPr('test', 'test body')).toBe(true);
+
+    stdoutCalledWith(mockStdout, [
+      '> [dry-run] issues.createComment: {"owner":"hello","repo":"world","issue_number":1347,"body":"test body"}',
+    ]);
+  });
+
+  it('should use env', async() => {
+    process.env.UTILS_DRY_RUN = 'true';
+    expect(new ApiHelper(octokit, context, logger).isDryRun()).toBe(true);
+
+    process.env.UTILS_DRY_RUN = 'false';
+    expect(new ApiHelper(octokit, context, logger).isDryRun()).toBe(false);
+    expect(new ApiHelper(octokit, context, logger, { dryRun: true }).isDryRun()).toBe(true);
+  });
+});
+
+describe('ApiHelper with LFS', () => {
+  disableNetConnect(nock);
+  testEnv();
+
+  const helper = new ApiHelper(octokit, context, logger);
+  let dir: string;
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'lfs-'));
+    fs.mkdirSync(path.join(dir, 'assets'));
+    fs.writeFileSync(path.join(dir, '.gitattributes'), '*.psd filter=lfs diff=lfs merge=lfs -text\n/assets/** filter=lfs diff=lfs merge=lfs -text\n');
+    fs.writeFileSync(path.join(dir, 'test.psd'), 'version https://git-lfs.github.com/spec/v1\noid sha256:4d7a214614ab2935c943f9e0ff69d22eadbb8f32b1258daaa5e2ca24d17e2393\nsize 12345\n');
+    fs.writeFileSync(path.join(dir, 'assets', 'test.bin'), Buffer.from([0, 1, 2, 255]));
+    fs.writeFileSync(path.join(dir, 'test.md'), 'test');
+  });
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should create blobs of pointer files', async() => {
+    const fn = vi.fn();
+    nock('https://api.github.com')
+      .persist()
+      .post('/repos/hello/world/git/blobs')
+      .reply(201, () => {
+        fn();
+        return getApiFixture(rootDir, 'repos.git.blobs');
+      });
+
+    expect(await helper.filesToBlobs(dir, ['test.psd', 'test.md'])).toHaveLength(2);
+    expect(fn).toBeCalledTimes(2);
+  });
+
+  it('should throw error if LFS object is not a pointer file', async() => {
+    const fn = vi.fn();
+    nock('https://api.github.com')
+      .persist()
+      .post('/repos/hello/world/git/blobs')
+      .reply(201, () => {
+        fn();
+        return getApiFixture(rootDir, 'repos.git.blobs');
+      });
+
+    await expect(helper.commit(dir, 'test commit message', ['test.md', 'test.psd', 'assets/test.bin'])).rejects.toThrow('Files tracked by Git LFS are not pointer files: assets/test.bin');
+    expect(fn).not.toBeCalled();
+    logger.endProcess();
+  });
+
+  it('should not read large LFS tracked files', async() => {
+    const mockReadFileSync = vi.spyOn(fs, 'readFileSync');
+    fs.writeFileSync(path.join(dir, 'assets', 'large.bin'), `version https://git-lfs.github.com/spec/v1\n${'x'.repeat(1024)}`);
+
+    await expect(helper.commit(dir, 'test commit message', ['assets/large.bin'])).rejects.toThrow('Files tracked by Git LFS are not pointer files: assets/large.bin');
+    expect(mockReadFileSync).not.toBeCalledWith(path.join(dir, 'assets', 'large.bin'));
+    logger.endProcess();
+  });
+});
+
+describe('ApiHelper with binary files', () => {
+  disableNetConnect(nock);
+  testEnv();
+
+  let dir: string;
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'blob-'));
+    fs.writeFileSync(path.join(dir, 'test.png'), Buffer.from([137, 80, 78, 71, 0, 255, 254]));
+    fs.writeFileSync(path.join(dir, 'test.md'), 'テスト');
+  });
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should create blobs from raw bytes', async() => {
+    const fn = vi.fn();
+    nock('https://api.github.com')
+      .persist()
+      .post('/repos/hello/world/git/blobs', body => {
+        fn(body.content);
+        return body;
+      })
+      .reply(201, () => getApiFixture(rootDir, 'repos.git.blobs'));
+
+    const blobs = await new ApiHelper(octokit, context, logger, { blobConcurrency: 1 }).filesToBlobs(dir, ['test.png', 'test.md']);
+    expect(blobs.map(blob => blob.path)).toEqual(['test.png', 'test.md']);
+    expect(fn).toBeCalledTimes(2);
+    expect(fn).toHaveBeenNthCalledWith(1, Buffer.from([137, 80, 78, 71, 0, 255, 254]).toString('base64'));
+    expect(fn).toHaveBeenNthCalledWith(2, Buffer.from('テスト').toString('base64'));
+  });
+
+  it('should throw error if file exceeds max blob size', async() => {
+    const fn = vi.fn();
+    nock('https://api.github.com')
+      .persist()
+      .post('/repos/hello/world/git/blobs')
+      .reply(201, () => {
+        fn();
+        return getApiFixture(rootDir, 'repos.git.blobs');
+      });
+
+    await expect(new ApiHelper(octokit, context, logger, { maxBlobSize: 8 }).filesToBlobs(dir, ['test.png', 'test.md'])).rejects.toThrow('Files exceed the max blob size (8 bytes): test.md');
+    expect(fn).not.toBeCalled();
+  });
+
+  it('should detect modes from working copy', async() => {
+    fs.writeFileSync(path.join(dir, 'test.sh'), 'echo test');
+    fs.chmodSync(path.join(dir, 'test.sh'), 0o755);
+    fs.symlinkSync('test.md', path.join(dir, 'link.md'));
+    fs.mkdirSync(path.join(dir, 'sub'));
+    fs.writeFileSync(path.join(dir, 'sub', '.git'), 'gitdir: ../modules/sub\n');
+    fs.mkdirSync(path.join(dir, 'modules', 'sub'), { recursive: true });
+    fs.writeFileSync(path.join(dir, 'modules', 'sub', 'HEAD'), '1234567890123456789012345678901234567890\n');
+    const fn = vi.fn();
+    nock('https://api.github.com')
+      .persist()
+      .post('/repos/hello/world/git/blobs', body => {
+        fn(body.content);
+        return body;
+      })
+      .reply(201, () => getApiFixture(rootDir, 'repos.git.blobs'));
+
+    const sha = getApiFixture(rootDir, 'repos.git.blobs').sha;
+    expect(await new ApiHelper(octokit, context, logger).filesToBlobs(dir, [
+      'test.md',
+      'test.sh',
+      'link.md',
+      'sub',
+      'deleted.md',
+      { path: 'lib/module', mode: '160000', type: 'commit', sha: '2345678901234567890123456789012345678901' },
+    ])).toEqual([
+      { path: 'test.md', mode: '100644', type: 'blob', sha },
+      { path: 'test.sh', mode: '100755', type: 'blob', sha },
+      { path: 'link.md', mode: '120000', type: 'blob', sha },
+      { path: 'sub', mode: '160000', type: 'commit', sha: '1234567890123456789012345678901234567890' },
+      { path: 'deleted.md', mode: '100644', type: 'blob', sha: null },
+      { path: 'lib/module', mode: '160000', type: 'commit', sha: '2345678901234567890123456789012345678901' },
+    ]);
+    expect(fn).toBeCalledTimes(3);
+    expect(fn).toBeCalledWith(Buffer.from('test.md').toString('base64'));
+  });
+
+  it('should throw error if directory is not a submodule', async() => {
+    fs.mkdirSync(path.join(dir, 'sub'));
+
+    await expect(new ApiHelper(octokit, context, logger).filesToBlobs(dir, ['sub'])).rejects.toThrow('Directory is not a submodule: sub');
+  });
+
+  it('should create tree with modes', async() => {
+    const fn = vi.fn();
+    nock('https://api.github.com')
+      .persist()
+      .get('/repos/hello/world/git/commits/7638417db6d59f3c431d3e1f261cc637155684cd')
+      .reply(200, () => getApiFixture(rootDir, 'repos.git.commits.get'))
+      .post('/repos/hello/world/git/trees', body => {
+        fn(body.tree);
+        return body;
+      })
+      .reply(201, () => getApiFixture(rootDir, 'repos.git.trees'));
+
+    await new ApiHelper(octokit, context, logger).createTree([
+      { path: 'test.md', sha: 'aaa' },
+      { path: 'test.sh', mode: '100755', type: 'blob', sha: 'bbb' },
+      { path: 'deleted.md', mode: '100644', type: 'blob', sha: null },
+      { path: 'sub', mode: '160000', type: 'commit', sha: 'ccc' },
+    ]);
+    expect(fn).toBeCalledWith([
+      { path: 'test.md', mode: '100644', type: 'blob', sha: 'aaa' },
+      { path: 'test.sh', mode: '100755', type: 'blob', sha: 'bbb' },
+      { path: 'deleted.md', mode: '100644', type: 'blob', sha: null },
+      { path: 'sub', mode: '160000', type: 'commit', sha: 'ccc' },
+    ]);
+  });
+
+  it('should throw error if failed to create blob', async() => {
+    nock('https://api.github.com')
+      .persist()
+      .post('/repos/hello/world/git/blobs')
+      .reply(500, { message: 'Server Error' });
+
+    await expect(new ApiHelper(octokit, context, logger).filesToBlobs(dir, ['test.png'])).rejects.toThrow();
+  });
+});
+
+describe('ApiHelper with GraphQL', () => {
+  disableNetConnect(nock);
+  testEnv();
+
+  const helper = new ApiHelper(octokit, context, logger, { commitMethod: 'graphql' });
+  let dir: string;
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'graphql-'));
+    fs.writeFileSync(path.join(dir, 'test.png'), Buffer.from([137, 80, 78, 71, 0, 255]));
+    fs.writeFileSync(path.join(dir, 'test.md'), 'test');
+  });
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should commit on branch', async() => {
+    const mockStdout       = spyOnStdout();
+    const mockEnv          = spyOnExportVariable();
+    const fn               = vi.fn();
+    process.env.GITHUB_SHA = 'sha';
+    nock('https://api.github.com')
+      .persist()
+      .post('/graphql', body => {
+        fn(body.variables.input);
+        return body;
+      })
+      .reply(200, { data: { createCommitOnBranch: { commit: { oid: 'new-sha' } } } });
+
+    expect(await helper.commit(dir, 'feat: test\n\ntest body', ['test.png', 'test.md', 'deleted.md'])).toBe(true);
+    expect(fn).toBeCalledWith({
+      branch: {
+        repositoryNameWithOwner: 'hello/world',
+        branchName: 'refs/heads/test',
+      },
+      message: {
+        headline: 'feat: test',
+        body: 'test body',
+      },
+      expectedHeadOid: '7638417db6d59f3c431d3e1f261cc637155684cd',
+      fileChanges: {
+        additions: [
+          { path: 'test.png', contents: Buffer.from([137, 80, 78, 71, 0, 255]).toString('base64') },
+          { path: 'test.md', contents: Buffer.from('test').toString('base64') },
+        ],
+        deletions: [{ path: 'deleted.md' }],
+      },
+    });
+    expect(process.env.GITHUB_SHA).toBe('new-sha');
+    stdoutCalledWith(mockStdout, [
+      '::group::Creating commit on branch... [heads/test]',
+      '::endgroup::',
+    ]);
+    exportVariableCalledWith(mockEnv, [
+      { name: 'GITHUB_SHA', val: 'new-sha' },
+    ]);
+  });
+
+  it('should not commit on branch if dry run', async() => {
+    const mockStdout       = spyOnStdout();
+    process.env.GITHUB_SHA = 'sha';
+
+    expect(await new ApiHelper(octokit, context, logger, { commitMethod: 'graphql', dryRun: true }).commit(dir, 'test', ['test.md'])).toBe(true);
+    expect(process.env.GITHUB_SHA).toBe('sha');
+    stdoutCalledWith(mockStdout, [
+      '::group::Creating commit on branch... [heads/test]',
+      '> [dry-run] graphql.createCommitOnBranch: {"branch":{"repositoryNameWithOwner":"hello/world","branchName":"refs/heads/test"},"message":{"headline":"test","body":""},"expectedHeadOid":"7638417db6d59f3c431d3e1f261cc637155684cd"}',
+      '::endgroup::',
+    ]);
+  });
+
+  it('should throw error if file is not a regular file', async() => {
+    fs.symlinkSync('test.md', path.join(dir, 'link.md'));
+
+    await expect(helper.commit(dir, 'test', ['test.md', 'link.md'])).rejects.toThrow('Only regular files can be committed by GraphQL API: link.md');
+    await expect(helper.commit(dir, 'test', [{ path: 'sub', mode: '160000', type: 'commit', sha: 'aaa' }])).rejects.toThrow('Only regular files can be committed by GraphQL API: sub');
+  });
+
+  it('should suppress protected branch error', async() => {
+    nock('https://api.github.com')
+      .persist()
+      .post('/graphql')
+      .reply(200, { errors: [{ message: '2 of 2 required status checks are expected.' }] });
+
+    await expect(helper.commit(dir, 'test', ['test.md'])).rejects.toThrow('required status checks are expected');
+    expect(await new ApiHelper(octokit, context, logger, { commitMethod: 'graphql', suppressBPError: true }).commit(dir, 'test', [{ path: 'test.md', mode: '100644', type: 'blob', sha: null }])).toBe(true);
+  });
+
+  it('should create pull request', async() => {
+    const fn = vi.fn();
+    nock('https://api.github.com')
+      .persist()
+      .get('/repos/hello/world/git/commits/7638417db6d59f3c431d3e1f261cc637155684cd')
+      .reply(200, () => getApiFixture(rootDir, 'repos.git.commits.get'))
+      .get('/repos/hello/world/git/ref/' + encodeURIComponent('heads/create/test'))
+      .reply(404)
+      .post('/repos/hello/world/git/refs', body => {
+        fn(body);
+        return body;
+      })
+      .reply(201, () => getApiFixture(rootDir, 'repos.git.refs.create'))
+      .post('/graphql', body => {
+        fn(body.variables.input.branch, body.variables.input.expectedHeadOid);
+        return body;
+      })
+      .reply(200, { data: { createCommitOnBranch: { commit: { oid: 'new-sha' } } } })
+      .get('/repos/hello/world/pulls?head=hello%3Acreate%2Ftest')
+      .reply(200, () => getApiFixture(rootDir, 'pulls.list'))
+      .patch('/repos/hello/world/pulls/1347')
+      .reply(200, () => getApiFixture(rootDir, 'pulls.update'));
+
+    const info = await helper.createPR(dir, 'test commit message', ['test.md'], 'create/test', { body: 'body', title: 'test title' });
+    expect(info).toHaveProperty('number', 1347);
+    expect(fn).toHaveBeenNthCalledWith(1, { ref: 'refs/heads/create/test', sha: '7638417db6d59f3c431d3e1f261cc637155684cd' });
+    expect(fn).toHaveBeenNthCalledWith(2, { repositoryNameWithOwner: 'hello/world', branchName: 'refs/heads/create/test' }, '7638417db6d59f3c431d3e1f261cc637155684cd');
+  });
+});
+
+describe('ApiHelper with commit retry', () => {
+  disableNetConnect(nock);
+  testEnv();
+
+  const head    = 'aa218f56b14c9653891f9e74264a383fa43fefbd';
+  const helper  = new ApiHelper(octokit, context, logger, { commitRetry: 2 });
+  const mockApi = (fn: (...args: unknown[]) => void, files: Array<{ filename: string; previous_filename?: string }>, conflictCount = 1): nock.Scope => {
+    let updateCount = 0;
+    return nock('https://api.github.com')
+      .persist()
+      .post('/repos/hello/world/git/blobs')
+      .reply(201, () => getApiFixture(rootDir, 'repos.git.blobs'))
+      .get(/^\/repos\/hello\/world\/git\/commits\/\w+$/)
+      .reply(200, uri => {
+        fn('getCommit', uri.split('/').pop());
+        return getApiFixture(rootDir, 'repos.git.commits.get');
+      })
+      .post('/repos/hello/world/git/trees')
+      .reply(201, () => getApiFixture(rootDir, 'repos.git.trees'))
+      .post('/repos/hello/world/git/commits', body => {
+        fn('createCommit', body.parents);
+        return body;
+      })
+      .reply(201, () => getApiFixture(rootDir, 'repos.git.commits'))
+      .patch(`/repos/hello/world/git/refs/${encodeURIComponent('heads/test')}`)
+      .reply(() => updateCount++ < conflictCount ? [422, { message: 'Update is not a fast forward' }] : [200, getApiFixture(rootDir, 'repos.git.refs.update')])
+      .get(`/repos/hello/world/git/ref/${encodeURIComponent('heads/test')}`)
+      .reply(200, () => getApiFixture(rootDir, 'repos.git.ref'))
+      .get(/^\/repos\/hello\/world\/compare\//)
+      .reply(200, () => ({ commits: [], files }));
+  };
+
+  it('should retry commit on the new head', async() => {
+    const mockStdout = spyOnStdout();
+    const mockEnv    = spyOnExportVariable();
+    const fn         = vi.fn();
+    mockApi(fn, [{ filename: 'README.md' }]);
+
+    expect(await helper.commit(rootDir, 'test commit message', ['build1.json'])).toBe(true);
+    expect(fn.mock.calls).toEqual([
+      ['getCommit', '7638417db6d59f3c431d3e1f261cc637155684cd'],
+      ['createCommit', ['7638417db6d59f3c431d3e1f261cc637155684cd']],
+      ['getCommit', head],
+      ['createCommit', [head]],
+    ]);
+    expect(process.env.GITHUB_SHA).toBe('7638417db6d59f3c431d3e1f261cc637155684cd');
+    stdoutCalledWith(mockStdout, [
+      '::group::Creating blobs...',
+      '::endgroup::',
+      '::group::Creating tree...',
+      '::endgroup::',
+      '::group::Creating commit... [cd8274d15fa3ae2ab983129fb037999f264ba9a7]',
+      '::endgroup::',
+      '::group::Updating ref... [heads/test] [7638417db6d59f3c431d3e1f261cc637155684cd]',
+      `::warning::The branch was updated by others. Retrying on ${head}... (1/2)`,
+      '::endgroup::',
+      '::group::Creating tree...',
+      '::endgroup::',
+      '::group::Creating commit... [cd8274d15fa3ae2ab983129fb037999f264ba9a7]',
+      '::endgroup::',
+      '::group::Updating ref... [heads/test] [7638417db6d59f3c431d3e1f261cc637155684cd]',
+      '::endgroup::',
+    ]);
+    exportVariableCalledWith(mockEnv, [
+      { name: 'GITHUB_SHA', val: '7638417db6d59f3c431d3e1f261cc637155684cd' },
+    ]);
+  });
+
+  it('should throw error if the same paths are changed', async() => {
+    mockApi(vi.fn(), [{ filename: 'README.md' }, { filename: 'build.json', 'previous_filename': 'build1.json' }]);
+
+    await expect(helper.commit(rootDir, 'test commit message', ['build1.json'])).rejects.toThrow('Files were changed on the branch by others: build1.json');
+    logger.endProcess();
+  });
+
+  it('should throw error if retry count exceeded', async() => {
+    mockApi(vi.fn(), [], 3);
+
+    await expect(helper.commit(rootDir, 'test commit message', ['build1.json'])).rejects.toThrow('Update is not a fast forward');
+    logger.endProcess();
+  });
+
+  it('should not retry by default', async() => {
+    const fn = vi.fn();
+    mockApi(fn, []);
+
+    await expect(new ApiHelper(octokit, context, logger).commit(rootDir, 'test commit message', ['build1.json'])).rejects.toThrow('Update is not a fast forward');
+    expect(fn).toBeCalledTimes(2);
+    logger.endProcess();
+  });
+
+  it('should retry commit on branch with GraphQL', async() => {
+    const mockEnv = spyOnExportVariable();
+    const fn      = vi.fn();
+    let count     = 0;
+    nock('https://api.github.com')
+      .persist()
+      .post('/graphql', body => {
+        fn(body.variables.input.expectedHeadOid);
+        return body;
+      })
+      .reply(200, () => count++ ? { data: { createCommitOnBranch: { commit: { oid: 'new-sha' } } } } : { errors: [{ message: 'Expected branch to point to "7638417db6d59f3c431d3e1f261cc637155684cd" but it did not. Pull and try again.' }] })
+      .get(`/repos/hello/world/git/ref/${encodeURIComponent('heads/test')}`)
+      .reply(200, () => getApiFixture(rootDir, 'repos.git.ref'))
+      .get(`/repos/hello/world/compare/7638417db6d59f3c431d3e1f261cc637155684cd...${head}`)
+      .reply(200, () => ({ commits: [], files: [] }));
+
+    expect(await new ApiHelper(octokit, context, logger, { commitMethod: 'graphql', commitRetry: 1 }).commit(rootDir, 'test commit message', ['build1.json'])).toBe(true);
+    expect(fn.mock.calls).toEqual([['7638417db6d59f3c431d3e1f261cc637155684cd'], [head]]);
+    expect(process.env.GITHUB_SHA).toBe('new-sha');
+    exportVariableCalledWith(mockEnv, [
+      { name: 'GITHUB_SHA', val: 'new-sha' },
+    ]);
+  });
+});
+
+describe('ApiHelper getRateLimit', () => {
+  disableNetConnect(nock);
+  testEnv();
+
+  const helper = new ApiHelper(octokit, context, logger);
+
+  it('should get rate limit', async() => {
+    nock('https://api.github.com')
+      .persist()
+      .get('/rate_limit')
+      .reply(200, {
+        resources: {
+          core: { limit: 5000, used: 1, remaining: 4999, reset: 1691591363 },
+          search: { limit: 30, used: 12, remaining: 18, reset: 1691591091 },
+        },
+        rate: { limit: 5000, used: 1, remaining: 4999, reset: 1372700873 },
+      });
+
+    expect(await helper.getRateLimit()).toEqual({ limit: 5000, used: 1, remaining: 4999, reset: 1691591363 });
+    expect(await helper.getRateLimit('search')).toEqual({ limit: 30, used: 12, remaining: 18, reset: 1691591091 });
+    await expect(helper.getRateLimit('graphql')).rejects.toThrow('Rate limit is not available: graphql');
+  });
+});
@@ -0,0 +1,133 @@
+/* eslint-disable no-magic-numbers */
+import type { CommitDetail } from '../src/index.js';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Changelog } from '../src/index.js';
+
+const { getCommitItems, getPullRequestItems, renderChangelog, prependChangelog } = Changelog;
+
+const getCommit = (sha: string, subject: string, body = '', parents = ['parent']): CommitDetail => ({
+  sha,
+  parents,
+  author: { name: 'octocat', email: 'octocat@example.com', date: '2023-01-01T00:00:00+09:00' },
+  committer: { name: 'octocat', email: 'octocat@example.com', date: '2023-01-01T00:00:00+09:00' },
+  subject,
+  body,
+  trailers: [],
+  files: [],
+});
+
+describe('getCommitItems', () => {
+  it('should get items', () => {
+    expect(getCommitItems([
+      getCommit('1234567890', 'feat(api): add feature'),
+      getCommit('2345678901', 'fix: fix bug', 'BREAKING CHANGE: changed'),
+      getCommit('3456789012', 'Merge pull request #1 from test', '', ['parent1', 'parent2']),
+      getCommit('4567890123', 'Update README.md'),
+    ])).toEqual([
+      { title: 'add feature', type: 'feat', scope: 'api', breaking: false, labels: [], sha: '1234567890', author: 'octocat' },
+      { title: 'fix bug', type: 'fix', scope: undefined, breaking: true, labels: [], sha: '2345678901', author: 'octocat' },
+      { title: 'Update README.md', breaking: false, labels: [], sha: '4567890123', author: 'octocat' },
+    ]);
+  });
+});
+
+describe('getPullRequestItems', () => {
+  it('should get items', () => {
+    expect(getPullRequestItems([
+      { number: 1, title: 'feat!: add feature', labels: [{ name: 'enhancement' }], user: { login: 'octocat' } },
+      { number: 2, title: 'Remove api', labels: ['breaking-change', {}], user: null },
+    ])).toEqual([
+      { title: 'add feature', type: 'feat', scope: undefined, breaking: true, labels: ['enhancement'], number: 1, author: 'octocat' },
+      { title: 'Remove api', breaking: true, labels: ['breaking-change', ''], number: 2, author: undefined },
+    ]);
+  });
+});
+
+describe('renderChangelog', () => {
+  const items = [
+    { title: 'add feature', type: 'feat', scope: 'api', breaking: false, labels: [], sha: '1234567890', author: 'octocat' },
+    { title: 'remove api', type: 'feat', breaking: true, labels: [], number: 12 },
+    { title: 'fix bug', breaking: false, labels: ['bug'], number: 13, author: 'octocat' },
+    { title: 'update docs', type: 'docs', breaking: false, labels: [] },
+  ];
+
+  it('should render changelog', async() => {
+    expect(await renderChangelog('v1.0.0', items, { date: '2023-01-01' })).toBe([
+      '## v1.0.0 (2023-01-01)',
+      '',
+      '### BREAKING CHANGES',
+      '',
+      '- remove api (#12)',
+      '',
+      '### Features',
+      '',
+      '- **api:** add feature (1234567)',
+      '',
+      '### Bug Fixes',
+      '',
+      '- fix bug (#13)',
+      '',
+    ].join('\n'));
+  });
+
+  it('should render changelog with options', async() => {
+    expect(await renderChangelog('v1.0.0', items, {
+      sections: [{ title: 'Changes', types: ['feat', 'fix'] }],
+      breakingTitle: false,
+      otherTitle: 'Others',
+      headerTemplate: '# ${version} ${from}...${to}',
+      sectionTemplate: '## ${title}',
+      itemTemplate: '* ${title}${reference} @${author}',
+      from: 'v0.1.0',
+      to: 'main',
+    })).toBe([
+      '# v1.0.0 v0.1.0...main',
+      '',
+      '## Changes',
+      '',
+      '* add feature (1234567) @octocat',
+      '* remove api (#12) @',
+      '',
+      '## Others',
+      '',
+      '* fix bug (#13) @octocat',
+      '* update docs @',
+      '',
+    ].join('\n'));
+  });
+
+  it('should render header only', async() => {
+    expect(await renderChangelog('v1.0.0', [], { date: '2023-01-01' })).toBe('## v1.0.0 (2023-01-01)\n');
+    expect(await renderChangelog('v1.0.0', [])).toMatch(/^## v1\.0\.0 \(\d{4}-\d{2}-\d{2}\)\n$/);
+  });
+});
+
+describe('prependChangelog', () => {
+  let dir: string;
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'changelog-'));
+  });
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should create changelog', () => {
+    prependChangelog(dir, '## v1.0.0\n');
+    expect(fs.readFileSync(path.join(dir, 'CHANGELOG.md'), 'utf8')).toBe('## v1.0.0\n');
+  });
+
+  it('should prepend changelog', () => {
+    fs.writeFileSync(path.join(dir, 'CHANGELOG.md'), '## v1.0.0\n');
+    prependChangelog(dir, '## v1.1.0\n');
+    expect(fs.readFileSync(path.join(dir, 'CHANGELOG.md'), 'utf8')).toBe('## v1.1.0\n\n## v1.0.0\n');
+  });
+
+  it('should prepend changelog after heading', () => {
+    fs.writeFileSync(path.join(dir, 'HISTORY.md'), '# Changelog\n## v1.0.0\n');
+    prependChangelog(dir, '## v1.1.0\n', 'HISTORY.md');
+    expect(fs.readFileSync(path.join(dir, 'HISTORY.md'), 'utf8')).toBe('# Changelog\n\n## v1.1.0\n\n## v1.0.0\n');
+  });
+});
@@ -0,0 +1,139 @@
+import type { CommitDetail } from './git-helper.js';
+import fs from 'fs';
+import path from 'path';
+import { parseConventionalCommit, replaceVariables } from './utils.js';
+
+// type, scope: Conventional Commits (commit or pull request title)
+// sha: commit, number: pull request
+export type ChangelogItem = {
+  title: string;
+  type?: string;
+  scope?: string;
+  breaking: boolean;
+  labels: string[];
+  sha?: string;
+  number?: number;
+  author?: string;
+};
+
+// item is grouped into the first section which matches the type or one of the labels
+export type ChangelogSection = {
+  title: string;
+  types?: string[];
+  labels?: string[];
+};
+
+// breakingTitle: section of breaking changes, false to group them by type (default: BREAKING CHANGES)
+// otherTitle: section of items which do not match any section, false to omit them (default: false)
+// templates: variables are ${version}, ${date}, ${from}, ${to} (header), ${title} (section), ${title}, ${scope}, ${reference}, ${author} (item)
+export type ChangelogOptions = {
+  sections?: ChangelogSection[];
+  breakingTitle?: string | false;
+  otherTitle?: string | false;
+  headerTemplate?: string;
+  sectionTemplate?: string;
+  itemTemplate?: string;
+};
+
+export type PullRequestLike = {
+  number: number;
+  title: string;
+  labels: Array<{ name?: string } | string>;
+  user?: { login: string } | null;
+};
+
+export const defaultSections: ChangelogSection[] = [
+  { title: 'Features', types: ['feat'], labels: ['feature', 'enhancement'] },
+  { title: 'Bug Fixes', types: ['fix'], labels: ['bug'] },
+  { title: 'Performance Improvements', types: ['perf'], labels: ['performance'] },
+];
+
+const getItem = (message: string, labels: string[]): ChangelogItem => {
+  const commit = parseConventionalCommit(message);
+  return commit ? {
+    title: commit.description,
+    type: commit.type,
+    scope: commit.scope,
+    breaking: commit.breaking,
+    labels,
+  } : {
+    title: message.split(/\r?\n/)[0]!,
+    breaking: labels.includes('breaking-change'),
+    labels,
+  };
+};
+
+// merge commits are excluded
+export const getCommitItems = (commits: CommitDetail[]): ChangelogItem[] => commits.filter(commit => commit.parents.length <= 1).map(commit => ({ // eslint-disable-line no-magic-numbers
+  ...getItem(`${commit.subject}\n\n${commit.body}`, []),
+  sha: commit.sha,
+  author: commit.author.name,
+}));
+
+export const getPullRequestItems = (pulls: PullRequestLike[]): ChangelogItem[] => pulls.map(pull => ({
+  ...getItem(pull.title, pull.labels.map(label => typeof label === 'string' ? label : label.name ?? '')),
+  number: pull.number,
+  author: pull.user?.login,
+}));
+
+const getSectionTitle = (item: ChangelogItem, sections: ChangelogSection[], options?: ChangelogOptions): string | false => {
+  if (item.breaking && options?.breakingTitle !== false) {
+    return options?.breakingTitle ?? 'BREAKING CHANGES';
+  }
+
+  const section = sections.find(section => (item.type && section.types?.includes(item.type)) || item.labels.some(label => section.labels?.includes(label)));
+  return section ? section.title : (options?.otherTitle ?? false);
+};
+
+const getReference = (item: ChangelogItem): string => item.number ? ` (#${item.number})` : (item.sha ? ` (${item.sha.substring(0, 7)})` : ''); // eslint-disable-line no-magic-numbers
+
+export const renderChangelog = async(version: string, items: ChangelogItem[], options?: ChangelogOptions & { date?: string; from?: string; to?: string }): Promise<string> => {
+  const sections = options?.sections ?? defaultSections;
+  const groups   = new Map<string, ChangelogItem[]>();
+  [
+    ...(options?.breakingTitle !== false ? [options?.breakingTitle ?? 'BREAKING CHANGES'] : []),
+    ...sections.map(section => section.title),
+    ...(options?.otherTitle ? [options.otherTitle] : []),
+  ].forEach(title => groups.set(title, []));
+  items.forEach(item => {
+    const title = getSectionTitle(item, sections, options);
+    if (false !== title) {
+      groups.get(title)!.push(item);
+    }
+  });
+
+  const lines = [
+    await replaceVariables(options?.headerTemplate ?? '## ${version} (${date})', [
+      { key: 'version', replace: version },
+      { key: 'date', replace: options?.date ?? new Date().toISOString().substring(0, 10) }, // eslint-disable-line no-magic-numbers
+      { key: 'from', replace: options?.from ?? '' },
+      { key: 'to', replace: options?.to ?? '' },
+    ]),
+  ];
+  for (const [title, groupItems] of groups) {
+    if (!groupItems.length) {
+      continue;
+    }
+
+    lines.push('', await replaceVariables(options?.sectionTemplate ?? '### ${title}', [{ key: 'title', replace: title }]), '');
+    for (const item of groupItems) {
+      lines.push(await replaceVariables(options?.itemTemplate ?? '- ${scope}${title}${reference}', [
+        { key: 'title', replace: item.title },
+        { key: 'scope', replace: item.scope ? `**${item.scope}:** ` : '' },
+        { key: 'reference', replace: getReference(item) },
+        { key: 'author', replace: item.author ?? '' },
+      ]));
+    }
+  }
+
+  return lines.join('\n') + '\n';
+};
+
+// inserted after the top level heading (e.g. # Changelog) if exists
+export const prependChangelog = (workDir: string, content: string, filename = 'CHANGELOG.md'): void => {
+  const filepath = path.resolve(workDir, filename);
+  const current  = fs.existsSync(filepath) ? fs.readFileSync(filepath, 'utf8') : '';
+  const heading  = current.match(/^# .*\r?\n+/);
+  const rest     = heading ? current.substring(heading[0].length) : current;
+  fs.writeFileSync(filepath, (heading ? heading[0].replace(/\n+$/, '\n\n') : '') + content + (rest ? `\n${rest}` : ''));
+};
@@ -1,21 +1,206 @@
 import type { Logger } from '@technote-space/github-action-log-helper';
-import type { ExecException } from 'child_process';
-import { exec, spawn } from 'child_process';
+import type { ChildProcess, ExecException, ExecFileException } from 'child_process';
+import { exec, execFile, spawn } from 'child_process';
+import { Readable } from 'stream';
 import escape from 'shell-escape';
+import { isDryRun, redactSecrets, sleep } from './utils.js';
 
-class CommandError extends Error {
+type InterruptOptions = {
+  timeout?: number;
+  signal?: AbortSignal;
+};
+
+type InterruptReason = 'timeout' | 'abort';
+
+// wait from SIGTERM to SIGKILL (ms)
+const killGracePeriod = 5000;
+
+export type StreamOptions = {
+  input?: string | Buffer | Readable;
+  onStdoutLine?: (line: string) => void;
+  onStderrLine?: (line: string) => void;
+  bufferOutput?: boolean;
+};
+
+type LineEmitter = {
+  push: (chunk: string) => void;
+  flush: () => void;
+};
+
+export type EnvMode = 'inherit' | 'replace' | 'allowlist';
+
+export type EnvOptions = {
+  env?: NodeJS.ProcessEnv;
+  envMode?: EnvMode;
+  envAllowlist?: string[];
+};
+
+export type CommandResult = {
+  command: string;
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  durationMs: number;
+  cwd?: string;
+};
+
+// attempts: max number of attempts (incl. the first one)
+// delay: wait before the first retry, multiplied by factor for each further retry (up to maxDelay)
+// jitter: randomize the wait between 50% and 100% of the delay
+// shouldRetry: output is the output of the process even if the command is quiet
+export type RetryOptions = {
+  attempts?: number;
+  delay?: number;
+  maxDelay?: number;
+  factor?: number;
+  jitter?: boolean;
+  shouldRetry?: (error: CommandError, attempt: number, output: { stdout: string; stderr: string }) => boolean;
+};
+
+export type CommandOptions = EnvOptions & StreamOptions & {
+  command: string;
+  args?: string[];
+  cwd?: string;
+  quiet?: boolean;
+  altCommand?: string;
+  suppressError?: boolean;
+  suppressOutput?: boolean;
+  stderrToStdout?: boolean;
+  timeout?: number;
+  signal?: AbortSignal;
+  rejectOnNonZero?: boolean;
+  shell?: boolean;
+  retry?: RetryOptions;
+  mutating?: boolean;
+};
+
+// shell: command is a command line run by the shell, otherwise: executable and verbatim arguments
+// secrets: secrets of the command (e.g. token of GitHelper) which have to be redacted if the request is stored
+export type ExecutorRequest = {
+  command: string;
+  args: string[];
+  shell: boolean;
+  cwd?: string;
+  env?: NodeJS.ProcessEnv;
+  secrets?: string[];
+};
+
+export type ExecutorResult = {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+};
+
+// next: runs the process
+export type Executor = {
+  execute: (request: ExecutorRequest, next: () => Promise<ExecutorResult>) => Promise<ExecutorResult>;
+};
+
+// shell: command line run by the shell, otherwise: executable and verbatim arguments
+// redirect: quiet and suppressError are applied by the shell (redirections and `|| :`)
+type ProcessTarget = {
+  command: string;
+  args: string[];
+  shell: boolean;
+  redirect: boolean;
+};
+
+// discarded: output which is discarded because the command is quiet
+type ProcessOutput = {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  error?: ExecException | ExecFileException;
+  discarded?: { stdout: string; stderr: string };
+};
+
+class ExitCodeError extends Error {
   constructor(message: string, public code: number) {
     super(message);
   }
 }
 
+class CommandInterruptedError extends Error {
+  constructor(public reason: InterruptReason, public stdout: string, public stderr: string) {
+    super(reason);
+  }
+}
+
+export class CommandError extends Error {
+  public readonly command: string;
+  public readonly stdout: string;
+  public readonly stderr: string;
+  public readonly exitCode: number | null;
+  public readonly signal: NodeJS.Signals | null;
+  public readonly durationMs: number;
+  public readonly cwd?: string;
+
+  constructor(message: string, result: CommandResult) {
+    super(message);
+    this.name       = 'CommandError';
+    this.command    = result.command;
+    this.stdout     = result.stdout;
+    this.stderr     = result.stderr;
+    this.exitCode   = result.exitCode;
+    this.signal     = result.signal;
+    this.durationMs = result.durationMs;
+    this.cwd        = result.cwd;
+  }
+}
+
+export class CommandTimeoutError extends CommandError {
+  constructor(message: string, result: CommandResult) {
+    super(message, result);
+    this.name = 'CommandTimeoutError';
+  }
+}
+
+export class CommandAbortError extends CommandError {
+  constructor(message: string, result: CommandResult) {
+    super(message, result);
+    this.name = 'CommandAbortError';
+  }
+}
+
+// errors of commands run in parallel, results: outputs of succeeded commands (undefined if failed) in input order
+export class CommandAggregateError<T = unknown> extends Error {
+  constructor(message: string, public readonly errors: Error[], public readonly results: Array<T | undefined>) {
+    super(message);
+    this.name = 'CommandAggregateError';
+  }
+}
+
 export default class Command {
-  constructor(private readonly logger: Logger, private readonly useExec = false) {
+  private readonly secrets: string[];
+  private readonly dryRun?: boolean;
+  private readonly executor?: Executor;
+  private readonly errorOutputs = new WeakMap<CommandError, { stdout: string; stderr: string }>();
+
+  // dryRun: mutating commands are displayed but not executed (default: UTILS_DRY_RUN)
+  // executor: runs instead of the process (e.g. CommandRecorder, CommandReplayer)
+  constructor(private readonly logger: Logger, private readonly useExec = false, options?: { secrets?: string[]; dryRun?: boolean; executor?: Executor }) {
+    this.secrets  = [...(options?.secrets ?? [])];
+    this.dryRun   = options?.dryRun;
+    this.executor = options?.executor;
   }
 
+  public isDryRun = (): boolean => this.dryRun ?? isDryRun();
+
+  public addSecret = (...secrets: string[]): void => {
+    this.secrets.push(...secrets.filter(secret => !!secret));
+  };
+
+  // only secrets of Utils.setSecret and addSecret are redacted (not the ones passed to core.setSecret directly)
+  private redact = (value: string): string => redactSecrets(value, this.secrets);
+
   private getCommand = (command: string, quiet: boolean, suppressError: boolean): string => command + (quiet ? ' > /dev/null 2>&1' : '') + (suppressError ? ' || :' : '');
 
-  private getRejectedErrorMessage = (command: string, altCommand: string | undefined, quiet: boolean, error: ExecException): string => {
+  private getRejectedErrorMessage = (command: string, altCommand: string | undefined, quiet: boolean, error: ExecException | ExecFileException): string => this.redact(this.getErrorMessage(command, altCommand, quiet, error));
+
+  private getErrorMessage = (command: string, altCommand: string | undefined, quiet: boolean, error: ExecException | ExecFileException): string => {
     if ('string' === typeof altCommand) {
       if (!quiet) {
         return `command [${altCommand}] exited with code ${error.code}. message: ${error.message}`;
@@ -28,21 +213,155 @@ export default class Command {
     return `command exited with code ${error.code}.`;
   };
 
+  private getInterruptedError = (
+    reason: InterruptReason,
+    command: string,
+    altCommand: string | undefined,
+    quiet: boolean,
+    interrupt: InterruptOptions,
+    result: CommandResult,
+  ): CommandTimeoutError | CommandAbortError => {
+    const target = 'string' === typeof altCommand ? ` [${altCommand}]` : (quiet ? '' : ` [${command}]`);
+    if ('timeout' === reason) {
+      return new CommandTimeoutError(this.redact(`command${target} timed out after ${interrupt.timeout}ms.`), result);
+    }
+
+    return new CommandAbortError(this.redact(`command${target} was aborted.`), result);
+  };
+
+  private isInterruptible = (interrupt: InterruptOptions): boolean => !!interrupt.signal || (interrupt.timeout ?? 0) > 0; // eslint-disable-line no-magic-numbers
+
+  // signal the whole process group if the child leads one (spawned with detached)
+  private signalProcess = (subProcess: ChildProcess, signal: NodeJS.Signals): void => {
+    if (subProcess.pid && 'win32' !== process.platform) {
+      try {
+        process.kill(-subProcess.pid, signal);
+        return;
+      } catch {
+        // not a process group leader
+      }
+    }
+
+    subProcess.kill(signal);
+  };
+
+  // processes which ignore SIGTERM (e.g. waiting for credentials) are killed by SIGKILL if they are not closed after the grace period
+  private killProcess = (subProcess: ChildProcess | undefined): void => {
+    if (!subProcess) {
+      return;
+    }
+
+    const timer = setTimeout(() => this.signalProcess(subProcess, 'SIGKILL'), killGracePeriod);
+    timer.unref?.();
+    subProcess.on('close', () => clearTimeout(timer));
+    this.signalProcess(subProcess, 'SIGTERM');
+  };
+
+  private watchProcess = (
+    getProcess: () => ChildProcess | undefined,
+    interrupt: InterruptOptions,
+    onInterrupt: (reason: InterruptReason) => void,
+  ): () => void => {
+    let timer: NodeJS.Timeout | undefined;
+    const clear     = (): void => {
+      if (timer) {
+        clearTimeout(timer);
+        timer = undefined;
+      }
+      interrupt.signal?.removeEventListener('abort', onAbort);
+    };
+    const terminate = (reason: InterruptReason): void => {
+      clear();
+      this.killProcess(getProcess());
+      onInterrupt(reason);
+    };
+    const onAbort   = (): void => terminate('abort');
+
+    if ((interrupt.timeout ?? 0) > 0) { // eslint-disable-line no-magic-numbers
+      timer = setTimeout(() => terminate('timeout'), interrupt.timeout);
+    }
+    interrupt.signal?.addEventListener('abort', onAbort, { once: true });
+
+    return clear;
+  };
+
+  // inherit: process.env + env, replace: env only, allowlist: allowed variables of process.env + env
+  // variables set to undefined in env are removed
+  private getEnv = (options: EnvOptions): NodeJS.ProcessEnv | undefined => {
+    const { env, envMode = 'inherit', envAllowlist = [] } = options;
+    if (!env && 'inherit' === envMode) {
+      return undefined;
+    }
+
+    const base = 'replace' === envMode ? {} : (
+      'allowlist' === envMode ? Object.fromEntries(Object.entries(process.env).filter(([key]) => envAllowlist.includes(key))) : process.env
+    );
+    return Object.fromEntries(Object.entries({ ...base, ...env }).filter(([, value]) => undefined !== value));
+  };
+
+  private getLineEmitter = (callback: ((line: string) => void) | undefined): LineEmitter => {
+    let rest = '';
+    return {
+      push: (chunk: string): void => {
+        if (callback) {
+          const lines = (rest + chunk).split(/\r?\n/);
+          rest        = lines.pop()!;
+          lines.forEach(line => callback(this.redact(line)));
+        }
+      },
+      flush: (): void => {
+        if (callback && rest) {
+          callback(this.redact(rest));
+        }
+        rest = '';
+      },
+    };
+  };
+
+  private emitLines = (callback: ((line: string) => void) | undefined, output: string): void => {
+    const emitter = this.getLineEmitter(callback);
+    emitter.push(output);
+    emitter.flush();
+  };
+
+  private writeInput = (subProcess: ChildProcess | undefined, input: StreamOptions['input']): void => {
+    if (undefined === input || !subProcess?.stdin) {
+      return;
+    }
+
+    // the process may exit without reading stdin
+    subProcess.stdin.on('error', () => undefined);
+    if (input instanceof Readable) {
+      input.pipe(subProcess.stdin);
+    } else {
+      subProcess.stdin.end(input);
+    }
+  };
+
   private getCommandResult = (
     command: string,
     altCommand: string | undefined,
     stderrToStdout: boolean,
-    stdout: string,
-    stderr: string,
-  ): { stdout: string; stderr: string; command: string } => {
-    let trimmedStdout = stdout.trim();
-    let trimmedStderr = stderr.trim();
+    output: Omit<ProcessOutput, 'error'>,
+    startedAt: number,
+    cwd: string | undefined,
+  ): CommandResult => {
+    let trimmedStdout = output.stdout.trim();
+    let trimmedStderr = output.stderr.trim();
     if (trimmedStderr && stderrToStdout) {
       trimmedStdout += `\n${trimmedStderr}`;
       trimmedStderr = '';
     }
 
-    return { stdout: trimmedStdout, stderr: trimmedStderr, command: 'string' === typeof altCommand ? altCommand : command };
+    return {
+      command: this.redact('string' === typeof altCommand ? altCommand : command),
+      stdout: this.redact(trimmedStdout),
+      stderr: this.redact(trimmedStderr),
+      exitCode: output.exitCode,
+      signal: output.signal,
+      durationMs: Date.now() - startedAt,
+      cwd,
+    };
   };
 
   private outputStdout = (
@@ -50,7 +369,7 @@ export default class Command {
     quiet: boolean,
     suppressOutput: boolean,
   ): void => {
-    const trimmedStdout = stdout.trim();
+    const trimmedStdout = this.redact(stdout.trim());
     if (!quiet && !suppressOutput) {
       if (trimmedStdout) {
         this.logger.displayStdout(trimmedStdout);
@@ -64,7 +383,7 @@ export default class Command {
     suppressOutput: boolean,
     stderrToStdout: boolean,
   ): void => {
-    const trimmedStderr = stderr.trim();
+    const trimmedStderr = this.redact(stderr.trim());
     if (!quiet && !suppressOutput) {
       if (trimmedStderr) {
         if (stderrToStdout) {
@@ -77,110 +396,341 @@ export default class Command {
   };
 
   private execCommand = (
-    command: string,
+    target: ProcessTarget,
     quiet: boolean,
     suppressOutput: boolean,
     stderrToStdout: boolean,
     cwd?: string,
-  ): Promise<{ stdout: string; stderr: string }> => {
+    interrupt: InterruptOptions = {},
+    env?: NodeJS.ProcessEnv,
+    stream: StreamOptions = {},
+  ): Promise<ProcessOutput> => {
     return new Promise((resolve, reject) => {
-      const subProcess = spawn(command, [], { shell: true, cwd, stdio: [process.stdin, 'pipe', 'pipe'] });
-      let stdout       = '';
-      let stderr       = '';
-      subProcess.stdout.on('data', (data) => {
-        this.outputStdout(data.toString(), quiet, suppressOutput);
-        stdout += data.toString();
+      let stdout          = '';
+      let stderr          = '';
+      const bufferOutput  = stream.bufferOutput ?? true;
+      const stdoutEmitter = this.getLineEmitter(stream.onStdoutLine);
+      const stderrEmitter = this.getLineEmitter(stream.onStderrLine);
+      // displayed output is split into lines before being redacted, because a secret may be split across chunks
+      const stdoutDisplay = this.getLineEmitter(quiet || suppressOutput ? undefined : line => this.outputStdout(line, quiet, suppressOutput));
+      const stderrDisplay = this.getLineEmitter(quiet || suppressOutput ? undefined : line => this.outputStderr(line, quiet, suppressOutput, stderrToStdout));
+      const subProcess    = spawn(target.command, target.args, {
+        shell: target.shell,
+        cwd,
+        env,
+        stdio: [undefined === stream.input ? process.stdin : 'pipe', 'pipe', 'pipe'],
+        detached: this.isInterruptible(interrupt) && 'win32' !== process.platform,
+      });
+      const clear         = this.watchProcess(() => subProcess, interrupt, reason => {
+        stdoutDisplay.flush();
+        stderrDisplay.flush();
+        reject(new CommandInterruptedError(reason, stdout, stderr));
+      });
+      this.writeInput(subProcess, stream.input);
+      subProcess.stdout!.on('data', (data) => {
+        stdoutDisplay.push(data.toString());
+        stdoutEmitter.push(data.toString());
+        if (bufferOutput) {
+          stdout += data.toString();
+        }
       });
 
-      subProcess.stderr.on('data', (data) => {
-        this.outputStderr(data.toString(), quiet, suppressOutput, stderrToStdout);
-        stderr += data.toString();
+      subProcess.stderr!.on('data', (data) => {
+        stderrDisplay.push(data.toString());
+        stderrEmitter.push(data.toString());
+        if (bufferOutput) {
+          stderr += data.toString();
+        }
       });
 
       subProcess.on('error', (err) => {
+        clear();
         reject(err);
       });
-      subProcess.on('close', (code) => {
-        if (code) {
-          reject(new CommandError(stderr, code));
-        }
-
-        resolve({ stdout, stderr });
+      subProcess.on('close', (code, signal) => {
+        clear();
+        stdoutDisplay.flush();
+        stderrDisplay.flush();
+        stdoutEmitter.flush();
+        stderrEmitter.flush();
+        resolve({ stdout, stderr, exitCode: code, signal: signal ?? null, error: code ? new ExitCodeError(stderr, code) : undefined });
       });
     });
   };
 
-  private execCallback = (
-    command: string,
-    altCommand: string | undefined,
+  // exec buffers the whole output (up to maxBuffer) and cannot start the child detached, so such processes are spawned
+  // the output is streamed to the line callbacks, and the process exits like exec (error of non-zero exit code or signal)
+  private spawnAsExec = (
+    target: ProcessTarget,
+    cwd: string | undefined,
+    env: NodeJS.ProcessEnv | undefined,
+    detached: boolean,
+    stream: StreamOptions,
+    onExit: (error: ExecFileException | null, stdout: string, stderr: string) => void,
+  ): ChildProcess => {
+    let stdout          = '';
+    let stderr          = '';
+    let exited          = false;
+    const bufferOutput  = stream.bufferOutput ?? true;
+    const stdoutEmitter = this.getLineEmitter(stream.onStdoutLine);
+    const stderrEmitter = this.getLineEmitter(stream.onStderrLine);
+    const subProcess    = spawn(target.command, target.args, { shell: target.shell, cwd, env, detached });
+    subProcess.stdout?.on('data', data => {
+      stdoutEmitter.push(data.toString());
+      if (bufferOutput) {
+        stdout += data.toString();
+      }
+    });
+    subProcess.stderr?.on('data', data => {
+      stderrEmitter.push(data.toString());
+      if (bufferOutput) {
+        stderr += data.toString();
+      }
+    });
+    // 'close' may also be emitted after 'error'
+    subProcess.on('error', error => {
+      exited = true;
+      onExit(error, stdout, stderr);
+    });
+    subProcess.on('close', (code, signal) => {
+      if (exited) {
+        return;
+      }
+
+      stdoutEmitter.flush();
+      stderrEmitter.flush();
+      if (code || signal) {
+        const command = target.shell ? target.command : [target.command, ...target.args].join(' ');
+        onExit(Object.assign(new Error(`Command failed: ${command}\n${stderr}`), { code: code ?? undefined, signal: signal ?? undefined, cmd: command }), stdout, stderr);
+      } else {
+        onExit(null, stdout, stderr);
+      }
+    });
+
+    return subProcess;
+  };
+
+  private isStreaming = (stream: StreamOptions): boolean => !!stream.onStdoutLine || !!stream.onStderrLine || false === stream.bufferOutput;
+
+  private execWithExec = (
+    target: ProcessTarget,
+    cwd: string | undefined,
+    interrupt: InterruptOptions,
+    env: NodeJS.ProcessEnv | undefined,
+    stream: StreamOptions,
+  ): Promise<ProcessOutput> => new Promise((resolve, reject) => {
+    let stdout = '';
+    let stderr = '';
+    let subProcess: ChildProcess | undefined;
+    const clear    = this.watchProcess(() => subProcess, interrupt, reason => reject(new CommandInterruptedError(reason, stdout, stderr)));
+    const onExit   = (error: ExecFileException | null, stdout: string, stderr: string): void => {
+      clear();
+      resolve({ stdout, stderr, exitCode: error ? (typeof error.code === 'number' ? error.code : null) : 0, signal: error?.signal ?? null, error: error ?? undefined }); // eslint-disable-line no-magic-numbers
+    };
+    const detached = this.isInterruptible(interrupt) && 'win32' !== process.platform;
+
+    if (detached || this.isStreaming(stream)) {
+      subProcess = this.spawnAsExec(target, cwd, env, detached, stream, onExit);
+    } else if (!target.shell) {
+      subProcess = execFile(target.command, target.args, { cwd, env }, onExit);
+    } else if (typeof cwd === 'undefined' && typeof env === 'undefined') {
+      subProcess = exec(target.command, onExit);
+    } else {
+      subProcess = exec(target.command, { cwd, env }, onExit);
+    }
+
+    this.writeInput(subProcess, stream.input);
+    if (stream.bufferOutput !== false) {
+      subProcess?.stdout?.on('data', data => stdout += data.toString());
+      subProcess?.stderr?.on('data', data => stderr += data.toString());
+    }
+  });
+
+  private getExecutorOutput = (result: ExecutorResult | ProcessOutput): ProcessOutput => ({
+    stdout: result.stdout,
+    stderr: result.stderr,
+    exitCode: result.exitCode,
+    signal: result.signal,
+    error: 'error' in result ? result.error : (result.exitCode || result.signal ? new ExitCodeError(result.stderr, result.exitCode ?? 0) : undefined), // eslint-disable-line no-magic-numbers
+  });
+
+  // output of the process which is not run by the executor is not streamed
+  private replayOutput = (output: ProcessOutput, quiet: boolean, suppressOutput: boolean, stderrToStdout: boolean, stream: StreamOptions): void => {
+    if (!this.useExec) {
+      this.outputStdout(output.stdout, quiet, suppressOutput);
+      this.outputStderr(output.stderr, quiet, suppressOutput, stderrToStdout);
+    }
+
+    this.emitLines(stream.onStdoutLine, output.stdout);
+    this.emitLines(stream.onStderrLine, output.stderr);
+    if (stream.bufferOutput === false) {
+      output.stdout = '';
+      output.stderr = '';
+    }
+  };
+
+  private runProcess = async(
+    target: ProcessTarget,
     quiet: boolean,
     suppressOutput: boolean,
     stderrToStdout: boolean,
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    resolve: (value: any) => void,
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    reject: (value: any) => void,
-  ): (error: ExecException | null, stdout: string, stderr: string) => void => (error: ExecException | null, stdout: string, stderr: string): void => {
-    if (error) {
-      reject(new Error(this.getRejectedErrorMessage(command, altCommand, quiet, error)));
-    } else {
-      let trimmedStdout = stdout.trim();
-      let trimmedStderr = stderr.trim();
-      if (!quiet && !suppressOutput) {
-        if (trimmedStdout) {
-          this.logger.displayStdout(trimmedStdout);
-        }
-        if (trimmedStderr) {
-          if (stderrToStdout) {
-            this.logger.displayStdout(trimmedStderr);
-            trimmedStdout += `\n${trimmedStderr}`;
-            trimmedStderr = '';
-          } else {
-            this.logger.displayStderr(trimmedStderr);
-          }
-        }
-      }
-      resolve({ stdout: trimmedStdout, stderr: trimmedStderr, command: 'string' === typeof altCommand ? altCommand : command });
+    cwd: string | undefined,
+    interrupt: InterruptOptions,
+    env: NodeJS.ProcessEnv | undefined,
+    stream: StreamOptions,
+  ): Promise<ProcessOutput> => {
+    let executed  = false;
+    const execute = async(): Promise<ProcessOutput> => {
+      executed = true;
+      return this.useExec ?
+        await this.execWithExec(target, cwd, interrupt, env, stream) :
+        await this.execCommand(target, quiet, suppressOutput, stderrToStdout, cwd, interrupt, env, stream);
+    };
+    const output  = this.executor ? this.getExecutorOutput(await this.executor.execute({ command: target.command, args: target.args, shell: target.shell, cwd, env, secrets: [...this.secrets] }, execute)) : await execute();
+    if (!executed) {
+      this.replayOutput(output, quiet, suppressOutput, stderrToStdout, stream);
+    }
+
+    if (!target.redirect && quiet) {
+      // same as redirecting to /dev/null
+      return { ...output, stdout: '', stderr: '', discarded: { stdout: output.stdout, stderr: output.stderr } };
     }
+
+    return output;
   };
 
-  public execAsync = async(options: {
-    command: string;
-    args?: string[];
-    cwd?: string;
-    quiet?: boolean;
-    altCommand?: string;
-    suppressError?: boolean;
-    suppressOutput?: boolean;
-    stderrToStdout?: boolean;
-  }): Promise<{ stdout: string; stderr: string; command: string }> | never => {
-    const { command, args, cwd, altCommand, quiet = false, suppressError = false, suppressOutput = false, stderrToStdout = false } = options;
+  private getProcessTarget = (
+    command: string,
+    args: string[] | undefined,
+    commandWithArgs: string,
+    quiet: boolean,
+    suppressError: boolean,
+    shell: boolean,
+    redirect: boolean,
+  ): ProcessTarget => shell ?
+    { command: redirect ? this.getCommand(commandWithArgs, quiet, suppressError) : commandWithArgs, args: [], shell, redirect } :
+    { command, args: (args ?? []).filter(arg => arg.length), shell, redirect: false };
+
+  // process which exited with non-zero code (or was killed by a signal) is resolved if rejectOnNonZero is false
+  // (or suppressError without redirect, which is same as `|| :`)
+  private shouldReject = (output: ProcessOutput, rejectOnNonZero: boolean, target: ProcessTarget, suppressError: boolean): boolean => !!output.error && (
+    typeof output.exitCode === 'number' || !!output.signal ? rejectOnNonZero && (target.redirect || !suppressError) : true
+  );
+
+  private getCommandWithArgs = (command: string, args: string[] | undefined): string => {
+    const commandArgs = undefined === args ? '' : escape(args.map(item => item.trim()).filter(item => item.length));
+    return command + (commandArgs.length ? ' ' + commandArgs : '');
+  };
 
-    const commandArgs     = undefined === args ? '' : escape(args.map(item => item.trim()).filter(item => item.length));
-    const commandWithArgs = command + (commandArgs.length ? ' ' + commandArgs : '');
+  private displayCommand = (commandWithArgs: string, altCommand: string | undefined, quiet: boolean): void => {
     if (undefined !== altCommand) {
       if (altCommand) {
-        this.logger.displayCommand(altCommand);
+        this.logger.displayCommand(this.redact(altCommand));
       }
     } else if (!quiet) {
-      this.logger.displayCommand(commandWithArgs);
+      this.logger.displayCommand(this.redact(commandWithArgs));
     }
+  };
 
-    if (this.useExec) {
-      return new Promise((resolve, reject) => {
-        if (typeof cwd === 'undefined') {
-          exec(this.getCommand(commandWithArgs, quiet, suppressError), this.execCallback(commandWithArgs, altCommand, quiet, suppressOutput, stderrToStdout, resolve, reject));
-        } else {
-          exec(this.getCommand(commandWithArgs, quiet, suppressError), { cwd }, this.execCallback(commandWithArgs, altCommand, quiet, suppressOutput, stderrToStdout, resolve, reject));
-        }
-      });
-    } else {
+  private skipCommand = (options: CommandOptions): CommandResult => {
+    const commandWithArgs = this.getCommandWithArgs(options.command, options.args);
+    this.displayCommand(commandWithArgs, options.altCommand, options.quiet ?? false);
+    this.logger.info('[dry-run] skipped.');
+
+    return this.getCommandResult(commandWithArgs, options.altCommand, false, { stdout: '', stderr: '', exitCode: 0, signal: null }, Date.now(), options.cwd);
+  };
+
+  // retry: the process has to fail to be retried, so quiet and suppressError are not applied by the shell
+  public execAsync = async(options: CommandOptions): Promise<CommandResult> | never => {
+    if (options.mutating && this.isDryRun()) {
+      return this.skipCommand(options);
+    }
+
+    return options.retry && !(options.input instanceof Readable) ?
+      this.execWithRetry(options, options.retry) :
+      this.execOnce(options, true);
+  };
+
+  private getRetryDelay = (retry: RetryOptions, attempt: number): number => {
+    const delay = Math.min((retry.delay ?? 1000) * (retry.factor ?? 2) ** (attempt - 1), retry.maxDelay ?? 30000); // eslint-disable-line no-magic-numbers
+    return (retry.jitter ?? true) ? Math.round(delay / 2 + Math.random() * delay / 2) : delay; // eslint-disable-line no-magic-numbers
+  };
+
+  private isRetryable = (error: unknown, retry: RetryOptions, attempt: number): error is CommandError =>
+    error instanceof CommandError && !(error instanceof CommandAbortError) && (retry.shouldRetry?.(error, attempt, this.errorOutputs.get(error) ?? { stdout: error.stdout, stderr: error.stderr }) ?? true);
+
+  // same as `|| :`: the process has exited (not interrupted, not failed to start)
+  private isSuppressible = (error: unknown): error is CommandError =>
+    error instanceof CommandError && !(error instanceof CommandTimeoutError) && !(error instanceof CommandAbortError) && (typeof error.exitCode === 'number' || !!error.signal);
+
+  private execWithRetry = async(options: CommandOptions, retry: RetryOptions): Promise<CommandResult> => {
+    const { suppressError = false, ...rest } = options;
+    const attempts = Math.max(retry.attempts ?? 3, 1); // eslint-disable-line no-magic-numbers
+    for (let attempt = 1; ; attempt++) {
       try {
-        const { stdout, stderr } = await this.execCommand(this.getCommand(commandWithArgs, quiet, suppressError), quiet, suppressOutput, stderrToStdout, cwd);
-        return this.getCommandResult(commandWithArgs, altCommand, stderrToStdout, stdout, stderr);
+        return await this.execOnce(rest, false);
       } catch (error) {
-        throw new Error(this.getRejectedErrorMessage(command, altCommand, quiet, error as ExecException));
+        if (attempt < attempts && this.isRetryable(error, retry, attempt)) {
+          const delay = this.getRetryDelay(retry, attempt);
+          this.logger.info(`Retrying in ${delay}ms... (${attempt + 1}/${attempts})`);
+          await sleep(delay);
+          continue;
+        }
+
+        if (suppressError && this.isSuppressible(error)) {
+          const { command, stdout, stderr, exitCode, signal, durationMs, cwd } = error;
+          return { command, stdout, stderr, exitCode, signal, durationMs, cwd };
+        }
+
+        throw error;
       }
     }
   };
+
+  private execOnce = async(options: Omit<CommandOptions, 'retry'>, redirect: boolean): Promise<CommandResult> | never => {
+    const { command, args, cwd, altCommand, quiet = false, suppressError = false, suppressOutput = false, stderrToStdout = false, rejectOnNonZero = true, shell = true } = options;
+    const interrupt = { timeout: options.timeout, signal: options.signal };
+    const startedAt = Date.now();
+
+    const commandWithArgs = this.getCommandWithArgs(command, args);
+    // command is only the executable without shell
+    const errorCommand    = this.useExec || !shell ? commandWithArgs : command;
+    this.displayCommand(commandWithArgs, altCommand, quiet);
+
+    if (interrupt.signal?.aborted) {
+      throw this.getInterruptedError('abort', commandWithArgs, altCommand, quiet, interrupt, this.getCommandResult(commandWithArgs, altCommand, false, { stdout: '', stderr: '', exitCode: null, signal: null }, startedAt, cwd));
+    }
+
+    const target = this.getProcessTarget(command, args, commandWithArgs, quiet, suppressError, shell, redirect);
+    let output: ProcessOutput;
+    try {
+      output = await this.runProcess(target, quiet, suppressOutput, stderrToStdout, cwd, interrupt, this.getEnv(options), options);
+    } catch (error) {
+      if (error instanceof CommandInterruptedError) {
+        throw this.getInterruptedError(error.reason, commandWithArgs, altCommand, quiet, interrupt, this.getCommandResult(commandWithArgs, altCommand, false, { stdout: error.stdout, stderr: error.stderr, exitCode: null, signal: 'SIGTERM' }, startedAt, cwd));
+      }
+
+      throw new CommandError(
+        this.getRejectedErrorMessage(errorCommand, altCommand, quiet, error as ExecException),
+        this.getCommandResult(commandWithArgs, altCommand, false, { stdout: '', stderr: '', exitCode: null, signal: null }, startedAt, cwd),
+      );
+    }
+
+    const result = this.getCommandResult(commandWithArgs, altCommand, stderrToStdout, output, startedAt, cwd);
+    if (this.shouldReject(output, rejectOnNonZero, target, suppressError)) {
+      const error = new CommandError(this.getRejectedErrorMessage(errorCommand, altCommand, quiet, output.error!), result);
+      if (output.discarded) {
+        this.errorOutputs.set(error, { stdout: this.redact(output.discarded.stdout.trim()), stderr: this.redact(output.discarded.stderr.trim()) });
+      }
+
+      throw error;
+    }
+
+    if (this.useExec) {
+      this.outputStdout(output.stdout, quiet, suppressOutput);
+      this.outputStderr(output.stderr, quiet, suppressOutput, stderrToStdout);
+    }
+
+    return result;
+  };
 }
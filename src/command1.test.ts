@@ -1,15 +1,17 @@
 /* eslint-disable no-magic-numbers */
+import { readFileSync } from 'fs';
 import { Logger } from '@technote-space/github-action-log-helper';
 import {
   testChildProcess,
   setChildProcessParams,
   spyOnExec,
+  spyOnSpawn,
   execCalledWith,
   spyOnStdout,
   stdoutCalledWith,
 } from '@technote-space/github-action-test-helper';
-import { beforeEach, describe, expect, it } from 'vitest';
-import { Command } from '../src/index.js';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Command, CommandAbortError, CommandError, CommandTimeoutError } from '../src/index.js';
 
 describe('execAsync', () => {
   testChildProcess();
@@ -23,7 +25,7 @@ describe('execAsync', () => {
     const mockExec   = spyOnExec();
     const mockStdout = spyOnStdout();
 
-    expect(await command.execAsync({ command: 'test' })).toEqual({ stdout: 'stdout', stderr: '', command: 'test' });
+    expect(await command.execAsync({ command: 'test' })).toEqual({ stdout: 'stdout', stderr: '', command: 'test', exitCode: 0, signal: null, durationMs: expect.any(Number) });
 
     execCalledWith(mockExec, [
       'test',
@@ -39,7 +41,7 @@ describe('execAsync', () => {
     const mockExec   = spyOnExec();
     const mockStdout = spyOnStdout();
 
-    expect(await command.execAsync({ command: 'test', cwd: 'dir', altCommand: 'alt' })).toEqual({ stdout: 'stdout', stderr: 'stderr', command: 'alt' });
+    expect(await command.execAsync({ command: 'test', cwd: 'dir', altCommand: 'alt' })).toEqual({ stdout: 'stdout', stderr: 'stderr', command: 'alt', exitCode: 0, signal: null, durationMs: expect.any(Number), cwd: 'dir' });
 
     execCalledWith(mockExec, [
       ['test', { 'cwd': 'dir' }],
@@ -59,6 +61,9 @@ describe('execAsync', () => {
       stdout: 'stdout',
       stderr: '',
       command: 'test \'hello!\' \'how are you doing $USER\' \'"double"\' \\\'\'single\'\\\'',
+      exitCode: 0,
+      signal: null,
+      durationMs: expect.any(Number),
     });
 
     execCalledWith(mockExec, [
@@ -78,6 +83,9 @@ describe('execAsync', () => {
       stdout: 'stdout',
       stderr: '',
       command: 'alt',
+      exitCode: 0,
+      signal: null,
+      durationMs: expect.any(Number),
     });
 
     execCalledWith(mockExec, [
@@ -94,7 +102,7 @@ describe('execAsync', () => {
     const mockExec   = spyOnExec();
     const mockStdout = spyOnStdout();
 
-    expect(await command.execAsync({ command: 'test' })).toEqual({ stdout: '', stderr: '', command: 'test' });
+    expect(await command.execAsync({ command: 'test' })).toEqual({ stdout: '', stderr: '', command: 'test', exitCode: 0, signal: null, durationMs: expect.any(Number) });
 
     execCalledWith(mockExec, [
       'test',
@@ -109,7 +117,7 @@ describe('execAsync', () => {
     const mockExec   = spyOnExec();
     const mockStdout = spyOnStdout();
 
-    expect(await command.execAsync({ command: 'test' })).toEqual({ stdout: 'stdout', stderr: '', command: 'test' });
+    expect(await command.execAsync({ command: 'test' })).toEqual({ stdout: 'stdout', stderr: '', command: 'test', exitCode: 0, signal: null, durationMs: expect.any(Number) });
 
     execCalledWith(mockExec, [
       'test',
@@ -164,6 +172,50 @@ describe('execAsync', () => {
     })).rejects.toThrow('command exited with code 123.');
   });
 
+  it('should throw command error', async() => {
+    const error   = new Error('test message');
+    error['code'] = 123;
+    setChildProcessParams({ error: error, stdout: 'stdout', stderr: 'stderr' });
+
+    const promise = command.execAsync({ command: 'test', cwd: 'dir' });
+    await expect(promise).rejects.toBeInstanceOf(CommandError);
+    await expect(promise).rejects.toMatchObject({ command: 'test', stdout: 'stdout', stderr: 'stderr', exitCode: 123, cwd: 'dir' });
+  });
+
+  it('should resolve with exit code', async() => {
+    const error   = new Error('test message');
+    error['code'] = 1;
+    setChildProcessParams({ error: error });
+    const mockStdout = spyOnStdout();
+
+    expect(await command.execAsync({ command: 'test', rejectOnNonZero: false })).toEqual({
+      command: 'test',
+      stdout: 'stdout',
+      stderr: '',
+      exitCode: 1,
+      signal: null,
+      durationMs: expect.any(Number),
+    });
+    stdoutCalledWith(mockStdout, [
+      '[command]test',
+      '  >> stdout',
+    ]);
+  });
+
+  it('should resolve with signal', async() => {
+    const error     = new Error('test message');
+    error['signal'] = 'SIGKILL';
+    setChildProcessParams({ error: error });
+
+    expect(await command.execAsync({ command: 'test', rejectOnNonZero: false })).toMatchObject({ exitCode: null, signal: 'SIGKILL' });
+  });
+
+  it('should reject error without exit code', async() => {
+    setChildProcessParams({ error: new Error('maxBuffer exceeded') });
+
+    await expect(command.execAsync({ command: 'test', rejectOnNonZero: false })).rejects.toThrow('command [test] exited with code undefined. message: maxBuffer exceeded');
+  });
+
   it('should suppress stdout', async() => {
     const mockExec   = spyOnExec();
     const mockStdout = spyOnStdout();
@@ -235,4 +287,201 @@ describe('execAsync', () => {
       '  >> stdout',
     ]);
   });
+
+  describe('timeout and abort', () => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const hangingProcess = (pid?: number): any => {
+      const listeners: Array<(code: number | null, signal: string | null) => void> = [];
+      return {
+        pid,
+        kill: vi.fn(),
+        stdout: {
+          on: (event, callback) => event === 'data' && callback('partial stdout'),
+        },
+        stderr: {
+          on: (event, callback) => event === 'data' && callback('partial stderr'),
+        },
+        on: vi.fn((event, listener) => event === 'close' && listeners.push(listener)),
+        // the grace timer of SIGKILL is cleared
+        close: (): void => listeners.forEach(listener => listener(null, 'SIGTERM')),
+      };
+    };
+
+    it('should kill process and reject with timeout error', async() => {
+      const subProcess = hangingProcess();
+      spyOnSpawn().mockImplementationOnce(() => subProcess);
+
+      const promise = command.execAsync({ command: 'test', timeout: 10 });
+      await expect(promise).rejects.toThrow('command [test] timed out after 10ms.');
+      await expect(promise).rejects.toBeInstanceOf(CommandTimeoutError);
+      await expect(promise).rejects.toMatchObject({ stdout: 'partial stdout', stderr: 'partial stderr' });
+      expect(subProcess.kill).toBeCalledWith('SIGTERM');
+      expect(spyOnSpawn().mock.calls[0][2]).toMatchObject({ shell: true, detached: true });
+    });
+
+    it('should kill process group', async() => {
+      const mockKill   = vi.spyOn(process, 'kill').mockImplementation(() => true as const);
+      const subProcess = hangingProcess(12345);
+      spyOnSpawn().mockImplementationOnce(() => subProcess);
+
+      await expect(command.execAsync({ command: 'test', timeout: 10 })).rejects.toThrow('command [test] timed out after 10ms.');
+      expect(mockKill).toBeCalledWith(-12345, 'SIGTERM');
+      expect(subProcess.kill).not.toBeCalled();
+      subProcess.close();
+    });
+
+    it('should kill process and reject with abort error', async() => {
+      const subProcess = hangingProcess();
+      spyOnSpawn().mockImplementationOnce(() => subProcess);
+      const controller = new AbortController();
+
+      const promise = command.execAsync({ command: 'test', cwd: 'dir', signal: controller.signal });
+      controller.abort();
+      await expect(promise).rejects.toThrow('command [test] was aborted.');
+      await expect(promise).rejects.toBeInstanceOf(CommandAbortError);
+      expect(subProcess.kill).toBeCalledWith('SIGTERM');
+      expect(spyOnSpawn().mock.calls[0][2]).toMatchObject({ cwd: 'dir', detached: true });
+    });
+
+    it('should not interrupt finished command', async() => {
+      const mockSpawn = spyOnSpawn();
+
+      expect(await command.execAsync({ command: 'test', timeout: 10 })).toEqual({ stdout: 'stdout', stderr: '', command: 'test', exitCode: 0, signal: null, durationMs: expect.any(Number) });
+      expect(mockSpawn).toBeCalledWith('test', [], expect.objectContaining({ shell: true, detached: true }));
+    });
+
+    it('should reject with exit code of interruptible command', async() => {
+      setChildProcessParams({ stderr: 'stderr', code: 1 });
+      spyOnSpawn();
+
+      await expect(command.execAsync({ command: 'test', timeout: 10 })).rejects.toThrow('command [test] exited with code 1. message: Command failed: test\nstderr');
+    });
+
+    // killed processes may remain zombies until they are reaped
+    const isRunning = (pid: number): boolean => {
+      try {
+        return !/^\d+ \(.+\) Z /.test(readFileSync(`/proc/${pid}/stat`, 'utf8'));
+      } catch {
+        return false;
+      }
+    };
+
+    it.skipIf('linux' !== process.platform)('should kill grandchild processes', async() => {
+      const { spawn } = await vi.importActual<typeof import('child_process')>('child_process');
+      spyOnSpawn().mockImplementationOnce(spawn);
+
+      const promise = command.execAsync({ command: 'sleep 7 & echo $!; wait', timeout: 500 });
+      await expect(promise).rejects.toBeInstanceOf(CommandTimeoutError);
+      const pid = Number((await promise.catch(error => error)).stdout);
+      expect(pid).toBeGreaterThan(0);
+      await new Promise(resolve => setTimeout(resolve, 100));
+      expect(isRunning(pid)).toBe(false);
+    });
+  });
+
+  describe('env', () => {
+    it('should pass env', async() => {
+      const mockExec = spyOnExec();
+
+      await command.execAsync({ command: 'test', env: { LANG: 'C' }, envMode: 'replace' });
+      await command.execAsync({ command: 'test', cwd: 'dir', env: { LANG: 'C' }, envMode: 'replace' });
+
+      execCalledWith(mockExec, [
+        ['test', { env: { LANG: 'C' } }],
+        ['test', { cwd: 'dir', env: { LANG: 'C' } }],
+      ]);
+    });
+  });
+
+  describe('secrets', () => {
+    const command = new Command(new Logger(), true, { secrets: ['secret1'] });
+
+    it('should redact secrets from command and output', async() => {
+      setChildProcessParams({ stdout: 'stdout secret1', stderr: 'stderr secret1' });
+      const mockStdout = spyOnStdout();
+
+      expect(await command.execAsync({ command: 'test secret1', stderrToStdout: true })).toEqual({ stdout: 'stdout ***\nstderr ***', stderr: '', command: 'test ***', exitCode: 0, signal: null, durationMs: expect.any(Number) });
+
+      stdoutCalledWith(mockStdout, [
+        '[command]test ***',
+        '  >> stdout ***',
+        '  >> stderr ***',
+      ]);
+    });
+
+    it('should redact secrets from error', async() => {
+      const error   = new Error('secret1');
+      error['code'] = 123;
+      setChildProcessParams({ error: error });
+
+      await expect(command.execAsync({ command: 'test secret1' })).rejects.toThrow('command [test ***] exited with code 123. message: ***');
+    });
+  });
+
+  describe('input and streaming', () => {
+    it('should pass input to stdin', async() => {
+      const end = vi.fn();
+      spyOnExec().mockImplementationOnce((...args) => {
+        args[1](null, 'stdout', '');
+        return { stdin: { on: vi.fn(), end } };
+      });
+
+      await command.execAsync({ command: 'git commit -F -', input: 'commit message' });
+
+      expect(end).toBeCalledWith('commit message');
+    });
+
+    it('should call line callbacks', async() => {
+      setChildProcessParams({ stdout: 'line1\nline2\n', stderr: 'warning' });
+      const onStdoutLine = vi.fn();
+      const onStderrLine = vi.fn();
+
+      const mockSpawn    = spyOnSpawn();
+
+      expect(await command.execAsync({ command: 'git log', onStdoutLine, onStderrLine, bufferOutput: false })).toMatchObject({ stdout: '', stderr: '' });
+      expect(onStdoutLine.mock.calls).toEqual([['line1'], ['line2']]);
+      expect(onStderrLine.mock.calls).toEqual([['warning']]);
+      expect(mockSpawn).toBeCalledWith('git log', [], expect.objectContaining({ shell: true, detached: false }));
+    });
+
+    it('should stream output larger than max buffer of exec', async() => {
+      const { spawn }    = await vi.importActual<typeof import('child_process')>('child_process');
+      const onStdoutLine = vi.fn();
+      spyOnSpawn().mockImplementationOnce(spawn);
+
+      expect(await command.execAsync({
+        command: process.execPath,
+        args: ['-e', 'for (let i = 0; i < 100000; i++) console.log("x".repeat(30))'],
+        shell: false,
+        onStdoutLine,
+        bufferOutput: false,
+      })).toMatchObject({ stdout: '', exitCode: 0 });
+      expect(onStdoutLine).toBeCalledTimes(100000);
+    });
+  });
+
+  describe('without shell', () => {
+    it('should run executable with args', async() => {
+      const mockExec = spyOnExec();
+
+      expect(await command.execAsync({
+        command: process.execPath,
+        args: ['-e', 'console.log(process.argv.slice(1).join("|"))', '', ' $USER ', '\'single\' "double"'],
+        shell: false,
+        quiet: true,
+      })).toMatchObject({ stdout: '', exitCode: 0 });
+      expect(await command.execAsync({
+        command: process.execPath,
+        args: ['-e', 'console.log(process.argv.slice(1).join("|"))', '', ' $USER ', '\'single\' "double"'],
+        shell: false,
+        suppressOutput: true,
+      })).toMatchObject({ stdout: '$USER |\'single\' "double"', exitCode: 0 });
+      execCalledWith(mockExec, []);
+    });
+
+    it('should resolve with exit code', async() => {
+      expect(await command.execAsync({ command: process.execPath, args: ['-e', 'process.exit(3)'], shell: false, suppressError: true })).toMatchObject({ exitCode: 3 });
+      await expect(command.execAsync({ command: process.execPath, args: ['-e', 'process.exit(3)'], shell: false, quiet: true })).rejects.toThrow('exited with code 3.');
+    });
+  });
 });
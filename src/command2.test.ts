@@ -1,4 +1,5 @@
 /* eslint-disable no-magic-numbers */
+import { PassThrough, Readable } from 'stream';
 import { Logger } from '@technote-space/github-action-log-helper';
 import {
   testChildProcess,
@@ -8,8 +9,8 @@ import {
   spyOnStdout,
   stdoutCalledWith,
 } from '@technote-space/github-action-test-helper';
-import { beforeEach, describe, expect, it } from 'vitest';
-import { Command } from '../src/index.js';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Command, CommandAbortError, CommandError, CommandTimeoutError } from '../src/index.js';
 
 describe('execAsync', () => {
   testChildProcess();
@@ -23,7 +24,7 @@ describe('execAsync', () => {
     const mockExec   = spyOnSpawn();
     const mockStdout = spyOnStdout();
 
-    expect(await command.execAsync({ command: 'test' })).toEqual({ stdout: 'stdout', stderr: '', command: 'test' });
+    expect(await command.execAsync({ command: 'test' })).toEqual({ stdout: 'stdout', stderr: '', command: 'test', exitCode: 0, signal: null, durationMs: expect.any(Number) });
 
     execCalledWith(mockExec, [
       'test',
@@ -39,7 +40,7 @@ describe('execAsync', () => {
     const mockExec   = spyOnSpawn();
     const mockStdout = spyOnStdout();
 
-    expect(await command.execAsync({ command: 'test', cwd: 'dir', altCommand: 'alt' })).toEqual({ stdout: 'stdout', stderr: 'stderr', command: 'alt' });
+    expect(await command.execAsync({ command: 'test', cwd: 'dir', altCommand: 'alt' })).toEqual({ stdout: 'stdout', stderr: 'stderr', command: 'alt', exitCode: 0, signal: null, durationMs: expect.any(Number), cwd: 'dir' });
 
     execCalledWith(mockExec, [
       'test',
@@ -59,6 +60,9 @@ describe('execAsync', () => {
       stdout: 'stdout',
       stderr: '',
       command: 'test \'hello!\' \'how are you doing $USER\' \'"double"\' \\\'\'single\'\\\'',
+      exitCode: 0,
+      signal: null,
+      durationMs: expect.any(Number),
     });
 
     execCalledWith(mockExec, [
@@ -78,6 +82,9 @@ describe('execAsync', () => {
       stdout: 'stdout',
       stderr: '',
       command: 'alt',
+      exitCode: 0,
+      signal: null,
+      durationMs: expect.any(Number),
     });
 
     execCalledWith(mockExec, [
@@ -94,7 +101,7 @@ describe('execAsync', () => {
     const mockExec   = spyOnSpawn();
     const mockStdout = spyOnStdout();
 
-    expect(await command.execAsync({ command: 'test' })).toEqual({ stdout: '', stderr: '', command: 'test' });
+    expect(await command.execAsync({ command: 'test' })).toEqual({ stdout: '', stderr: '', command: 'test', exitCode: 0, signal: null, durationMs: expect.any(Number) });
 
     execCalledWith(mockExec, [
       'test',
@@ -109,7 +116,7 @@ describe('execAsync', () => {
     const mockExec   = spyOnSpawn();
     const mockStdout = spyOnStdout();
 
-    expect(await command.execAsync({ command: 'test' })).toEqual({ stdout: 'stdout', stderr: '', command: 'test' });
+    expect(await command.execAsync({ command: 'test' })).toEqual({ stdout: 'stdout', stderr: '', command: 'test', exitCode: 0, signal: null, durationMs: expect.any(Number) });
 
     execCalledWith(mockExec, [
       'test',
@@ -172,6 +179,43 @@ describe('execAsync', () => {
     })).rejects.toThrow('command [test] exited with code 123. message: error message');
   });
 
+  it('should throw command error', async() => {
+    setChildProcessParams({ stdout: 'stdout', stderr: 'error message', code: 123 });
+
+    const promise = command.execAsync({ command: 'test', cwd: 'dir' });
+    await expect(promise).rejects.toBeInstanceOf(CommandError);
+    await expect(promise).rejects.toMatchObject({
+      command: 'test',
+      stdout: 'stdout',
+      stderr: 'error message',
+      exitCode: 123,
+      signal: null,
+      durationMs: expect.any(Number),
+      cwd: 'dir',
+    });
+  });
+
+  it('should throw command error if spawn failed', async() => {
+    setChildProcessParams({ error: new Error('spawn failed') });
+
+    const promise = command.execAsync({ command: 'test' });
+    await expect(promise).rejects.toThrow('command [test] exited with code undefined. message: spawn failed');
+    await expect(promise).rejects.toMatchObject({ exitCode: null, stdout: '', stderr: '' });
+  });
+
+  it('should resolve with exit code', async() => {
+    setChildProcessParams({ stdout: '', stderr: 'error message', code: 1 });
+
+    expect(await command.execAsync({ command: 'git diff', args: ['--quiet'], rejectOnNonZero: false })).toEqual({
+      command: 'git diff --quiet',
+      stdout: '',
+      stderr: 'error message',
+      exitCode: 1,
+      signal: null,
+      durationMs: expect.any(Number),
+    });
+  });
+
   it('should suppress stdout', async() => {
     const mockExec   = spyOnSpawn();
     const mockStdout = spyOnStdout();
@@ -243,4 +287,493 @@ describe('execAsync', () => {
       '  >> stdout',
     ]);
   });
+
+  describe('timeout and abort', () => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const hangingProcess = (pid?: number): any => {
+      const listeners: Array<(code: number | null, signal: string | null) => void> = [];
+      return {
+        pid,
+        kill: vi.fn(),
+        stdout: {
+          on: (event, callback) => event === 'data' && callback('partial stdout'),
+        },
+        stderr: {
+          on: (event, callback) => event === 'data' && callback('partial stderr'),
+        },
+        on: vi.fn((event, listener) => event === 'close' && listeners.push(listener)),
+        // the grace timer of SIGKILL is cleared
+        close: (): void => listeners.forEach(listener => listener(null, 'SIGTERM')),
+      };
+    };
+
+    it('should kill process and reject with timeout error', async() => {
+      const subProcess = hangingProcess();
+      spyOnSpawn().mockImplementationOnce(() => subProcess);
+
+      const promise = command.execAsync({ command: 'test', timeout: 10 });
+      await expect(promise).rejects.toThrow('command [test] timed out after 10ms.');
+      await expect(promise).rejects.toBeInstanceOf(CommandTimeoutError);
+      await expect(promise).rejects.toBeInstanceOf(CommandError);
+      await expect(promise).rejects.toMatchObject({ stdout: 'partial stdout', stderr: 'partial stderr', exitCode: null, signal: 'SIGTERM' });
+      expect(subProcess.kill).toBeCalledWith('SIGTERM');
+      expect(spyOnSpawn().mock.calls[0][2]).toMatchObject({ detached: true });
+    });
+
+    it('should kill process group', async() => {
+      const mockKill   = vi.spyOn(process, 'kill').mockImplementation(() => true as const);
+      const subProcess = hangingProcess(12345);
+      spyOnSpawn().mockImplementationOnce(() => subProcess);
+
+      await expect(command.execAsync({ command: 'test', timeout: 10, altCommand: 'alt' })).rejects.toThrow('command [alt] timed out after 10ms.');
+      expect(mockKill).toBeCalledWith(-12345, 'SIGTERM');
+      expect(subProcess.kill).not.toBeCalled();
+      subProcess.close();
+    });
+
+    it('should kill process if process group is not available', async() => {
+      vi.spyOn(process, 'kill').mockImplementation(() => {
+        throw new Error('ESRCH');
+      });
+      const subProcess = hangingProcess(12345);
+      spyOnSpawn().mockImplementationOnce(() => subProcess);
+
+      await expect(command.execAsync({ command: 'test', timeout: 10, quiet: true })).rejects.toThrow('command timed out after 10ms.');
+      expect(subProcess.kill).toBeCalledWith('SIGTERM');
+      subProcess.close();
+    });
+
+    it('should kill process group by SIGKILL if it is not closed after SIGTERM', async() => {
+      vi.useFakeTimers();
+      const mockKill   = vi.spyOn(process, 'kill').mockImplementation(() => true as const);
+      const subProcess = hangingProcess(12345);
+      spyOnSpawn().mockImplementationOnce(() => subProcess);
+
+      try {
+        const promise = expect(command.execAsync({ command: 'test', timeout: 10 })).rejects.toThrow('command [test] timed out after 10ms.');
+        await vi.advanceTimersByTimeAsync(10);
+        await promise;
+        expect(mockKill.mock.calls).toEqual([[-12345, 'SIGTERM']]);
+
+        await vi.advanceTimersByTimeAsync(5000);
+        expect(mockKill.mock.calls).toEqual([[-12345, 'SIGTERM'], [-12345, 'SIGKILL']]);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should not send SIGKILL if process is closed', async() => {
+      vi.useFakeTimers();
+      const mockKill   = vi.spyOn(process, 'kill').mockImplementation(() => true as const);
+      const subProcess = hangingProcess(12345);
+      spyOnSpawn().mockImplementationOnce(() => subProcess);
+
+      try {
+        const promise = expect(command.execAsync({ command: 'test', timeout: 10 })).rejects.toThrow('command [test] timed out after 10ms.');
+        await vi.advanceTimersByTimeAsync(10);
+        await promise;
+        subProcess.close();
+
+        await vi.advanceTimersByTimeAsync(5000);
+        expect(mockKill.mock.calls).toEqual([[-12345, 'SIGTERM']]);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should kill process and reject with abort error', async() => {
+      const subProcess = hangingProcess();
+      spyOnSpawn().mockImplementationOnce(() => subProcess);
+      const controller = new AbortController();
+
+      const promise = command.execAsync({ command: 'test', signal: controller.signal });
+      controller.abort();
+      await expect(promise).rejects.toThrow('command [test] was aborted.');
+      await expect(promise).rejects.toBeInstanceOf(CommandAbortError);
+      await expect(promise).rejects.toMatchObject({ stdout: 'partial stdout', stderr: 'partial stderr' });
+      expect(subProcess.kill).toBeCalledWith('SIGTERM');
+    });
+
+    it('should not run command if already aborted', async() => {
+      const mockExec   = spyOnSpawn();
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(command.execAsync({ command: 'test', signal: controller.signal })).rejects.toBeInstanceOf(CommandAbortError);
+      execCalledWith(mockExec, []);
+    });
+
+    it('should not interrupt finished command', async() => {
+      const mockExec   = spyOnSpawn();
+      const controller = new AbortController();
+
+      expect(await command.execAsync({ command: 'test', timeout: 10, signal: controller.signal })).toEqual({ stdout: 'stdout', stderr: '', command: 'test', exitCode: 0, signal: null, durationMs: expect.any(Number) });
+      controller.abort();
+      expect(mockExec.mock.calls[0][2]).toMatchObject({ detached: true });
+    });
+  });
+
+  describe('env', () => {
+    it('should not pass env by default', async() => {
+      const mockExec = spyOnSpawn();
+
+      await command.execAsync({ command: 'test' });
+
+      expect(mockExec.mock.calls[0][2].env).toBeUndefined();
+    });
+
+    it('should merge env', async() => {
+      process.env.TEST_ENV1 = 'test1';
+      process.env.TEST_ENV2 = 'test2';
+      const mockExec        = spyOnSpawn();
+
+      await command.execAsync({ command: 'test', env: { LANG: 'C', TEST_ENV2: undefined } });
+
+      const env = mockExec.mock.calls[0][2].env;
+      expect(env).toMatchObject({ LANG: 'C', TEST_ENV1: 'test1' });
+      expect(env).not.toHaveProperty('TEST_ENV2');
+      delete process.env.TEST_ENV1;
+      delete process.env.TEST_ENV2;
+    });
+
+    it('should replace env', async() => {
+      const mockExec = spyOnSpawn();
+
+      await command.execAsync({ command: 'test', env: { LANG: 'C' }, envMode: 'replace' });
+
+      expect(mockExec.mock.calls[0][2].env).toEqual({ LANG: 'C' });
+    });
+
+    it('should pass only allowed env', async() => {
+      process.env.TEST_ENV1 = 'test1';
+      process.env.TEST_ENV2 = 'test2';
+      const mockExec        = spyOnSpawn();
+
+      await command.execAsync({ command: 'test', envMode: 'allowlist', envAllowlist: ['TEST_ENV1'] });
+      await command.execAsync({ command: 'test', env: { LANG: 'C' }, envMode: 'allowlist' });
+
+      expect(mockExec.mock.calls[0][2].env).toEqual({ TEST_ENV1: 'test1' });
+      expect(mockExec.mock.calls[1][2].env).toEqual({ LANG: 'C' });
+      delete process.env.TEST_ENV1;
+      delete process.env.TEST_ENV2;
+    });
+  });
+
+  describe('secrets', () => {
+    const command = new Command(new Logger(), false, { secrets: ['secret1'] });
+    command.addSecret('secret2', '');
+
+    it('should redact secrets from command and output', async() => {
+      setChildProcessParams({ stdout: 'stdout secret1', stderr: 'stderr secret2' });
+      const mockExec   = spyOnSpawn();
+      const mockStdout = spyOnStdout();
+
+      expect(await command.execAsync({ command: 'test', args: ['secret1'] })).toEqual({ stdout: 'stdout ***', stderr: 'stderr ***', command: 'test ***', exitCode: 0, signal: null, durationMs: expect.any(Number) });
+
+      execCalledWith(mockExec, [
+        'test secret1',
+      ]);
+      stdoutCalledWith(mockStdout, [
+        '[command]test ***',
+        '  >> stdout ***',
+        '::warning::  >> stderr ***',
+      ]);
+    });
+
+    it('should redact secrets split across chunks', async() => {
+      spyOnSpawn().mockImplementationOnce(() => ({
+        stdout: {
+          on: (event, callback) => event === 'data' && ['line1 sec', 'ret1\nline2 secr', 'et1'].forEach(chunk => callback(chunk)),
+        },
+        stderr: {
+          on: (event, callback) => event === 'data' && ['https://sec', 'ret2@github.com\n'].forEach(chunk => callback(chunk)),
+        },
+        on: (event, callback) => event === 'close' && callback(0, null),
+      }));
+      const mockStdout = spyOnStdout();
+
+      expect(await command.execAsync({ command: 'test' })).toMatchObject({ stdout: 'line1 ***\nline2 ***', stderr: 'https://***@github.com' });
+      stdoutCalledWith(mockStdout, [
+        '[command]test',
+        '  >> line1 ***',
+        '::warning::  >> https://***@github.com',
+        '  >> line2 ***',
+      ]);
+    });
+
+    it('should redact secrets from error', async() => {
+      setChildProcessParams({ stderr: 'failed to push to https://secret2@github.com', code: 128 });
+
+      await expect(command.execAsync({ command: 'git push', args: ['https://secret2@github.com'] })).rejects.toThrow('command [git push] exited with code 128. message: failed to push to https://***@github.com');
+    });
+  });
+
+  describe('input and streaming', () => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const streamingProcess = (stdin: PassThrough, stdoutChunks: string[]): any => ({
+      stdin,
+      stdout: {
+        on: (event, callback) => event === 'data' && stdoutChunks.forEach(chunk => callback(chunk)),
+      },
+      stderr: {
+        on: (event, callback) => event === 'data' && callback('warning1\nwarning2'),
+      },
+      on: (event, callback) => event === 'close' && callback(0, null),
+    });
+    const readStdin        = async(stdin: PassThrough): Promise<string> => {
+      let input = '';
+      for await (const chunk of stdin) {
+        input += chunk.toString();
+      }
+      return input;
+    };
+
+    it('should pass string input to stdin', async() => {
+      const stdin    = new PassThrough();
+      const mockExec = spyOnSpawn().mockImplementationOnce(() => streamingProcess(stdin, ['stdout']));
+
+      await command.execAsync({ command: 'git commit', args: ['-F', '-'], input: 'commit message' });
+
+      expect(await readStdin(stdin)).toBe('commit message');
+      expect(mockExec.mock.calls[0][2].stdio).toEqual(['pipe', 'pipe', 'pipe']);
+    });
+
+    it('should pipe readable input to stdin', async() => {
+      const stdin = new PassThrough();
+      spyOnSpawn().mockImplementationOnce(() => streamingProcess(stdin, ['stdout']));
+
+      await command.execAsync({ command: 'gpg', args: ['--import'], input: Readable.from(['key1', 'key2']) });
+
+      expect(await readStdin(stdin)).toBe('key1key2');
+    });
+
+    it('should inherit stdin without input', async() => {
+      const mockExec = spyOnSpawn();
+
+      await command.execAsync({ command: 'test' });
+
+      expect(mockExec.mock.calls[0][2].stdio).toEqual([process.stdin, 'pipe', 'pipe']);
+    });
+
+    it('should call line callbacks', async() => {
+      spyOnSpawn().mockImplementationOnce(() => streamingProcess(new PassThrough(), ['line1\nli', 'ne2\r\n', 'line3']));
+      const onStdoutLine = vi.fn();
+      const onStderrLine = vi.fn();
+
+      expect(await command.execAsync({ command: 'git log', onStdoutLine, onStderrLine })).toMatchObject({
+        stdout: 'line1\nline2\r\nline3',
+        stderr: 'warning1\nwarning2',
+      });
+      expect(onStdoutLine.mock.calls).toEqual([['line1'], ['line2'], ['line3']]);
+      expect(onStderrLine.mock.calls).toEqual([['warning1'], ['warning2']]);
+    });
+
+    it('should not buffer output', async() => {
+      spyOnSpawn().mockImplementationOnce(() => streamingProcess(new PassThrough(), ['line1\nline2\n']));
+      const onStdoutLine = vi.fn();
+
+      expect(await command.execAsync({ command: 'git log', onStdoutLine, bufferOutput: false })).toMatchObject({ stdout: '', stderr: '' });
+      expect(onStdoutLine.mock.calls).toEqual([['line1'], ['line2']]);
+    });
+  });
+
+  describe('without shell', () => {
+    it('should pass args verbatim', async() => {
+      const mockExec   = spyOnSpawn();
+      const mockStdout = spyOnStdout();
+
+      expect(await command.execAsync({ command: 'git', args: ['commit', '', '-m', ' message with $USER and \'quotes\' '], shell: false })).toMatchObject({
+        stdout: 'stdout',
+        command: 'git commit -m \'message with $USER and \'\\\'\'quotes\'\\\'',
+      });
+
+      execCalledWith(mockExec, [
+        ['git', ['commit', '-m', ' message with $USER and \'quotes\' ']],
+      ]);
+      expect(mockExec.mock.calls[0][2]).toMatchObject({ shell: false });
+      stdoutCalledWith(mockStdout, [
+        '[command]git commit -m \'message with $USER and \'\\\'\'quotes\'\\\'',
+        '  >> stdout',
+      ]);
+    });
+
+    it('should discard output if quiet', async() => {
+      setChildProcessParams({ stderr: 'stderr' });
+      const mockExec   = spyOnSpawn();
+      const mockStdout = spyOnStdout();
+
+      expect(await command.execAsync({ command: 'git', args: ['fetch'], quiet: true, shell: false })).toMatchObject({ stdout: '', stderr: '', exitCode: 0 });
+
+      execCalledWith(mockExec, [
+        ['git', ['fetch']],
+      ]);
+      stdoutCalledWith(mockStdout, []);
+    });
+
+    it('should suppress error', async() => {
+      setChildProcessParams({ stderr: 'error', code: 1 });
+      const mockExec = spyOnSpawn();
+
+      expect(await command.execAsync({ command: 'git', args: ['remote', 'add', 'origin'], suppressError: true, shell: false })).toMatchObject({ stderr: 'error', exitCode: 1 });
+
+      execCalledWith(mockExec, [
+        ['git', ['remote', 'add', 'origin']],
+      ]);
+    });
+
+    it('should throw error', async() => {
+      setChildProcessParams({ stderr: 'error', code: 1 });
+
+      await expect(command.execAsync({ command: 'git', args: ['remote', 'add', 'origin'], shell: false })).rejects.toThrow('command [git remote add origin] exited with code 1. message: error');
+    });
+  });
+});
+
+describe('execAsync with retry', () => {
+  testChildProcess();
+  beforeEach(() => {
+    Logger.resetForTesting();
+  });
+
+  const command = new Command(new Logger());
+  const failUntil = (attempts: number): (() => number) => {
+    let count = 0;
+    return (): number => ++count < attempts ? 128 : 0;
+  };
+
+  it('should retry failed command', async() => {
+    setChildProcessParams({ stderr: 'fatal: unable to access', code: failUntil(3) });
+    const mockExec   = spyOnSpawn();
+    const mockStdout = spyOnStdout();
+
+    expect(await command.execAsync({ command: 'git fetch', retry: { attempts: 3, delay: 1, jitter: false } })).toMatchObject({ exitCode: 0 });
+
+    execCalledWith(mockExec, [
+      'git fetch',
+      'git fetch',
+      'git fetch',
+    ]);
+    stdoutCalledWith(mockStdout, [
+      '[command]git fetch',
+      '  >> stdout',
+      '::warning::  >> fatal: unable to access',
+      '> Retrying in 1ms... (2/3)',
+      '[command]git fetch',
+      '  >> stdout',
+      '::warning::  >> fatal: unable to access',
+      '> Retrying in 2ms... (3/3)',
+      '[command]git fetch',
+      '  >> stdout',
+      '::warning::  >> fatal: unable to access',
+    ]);
+  });
+
+  it('should throw error if all attempts failed', async() => {
+    setChildProcessParams({ stderr: 'error', code: 1 });
+    const mockExec = spyOnSpawn();
+
+    await expect(command.execAsync({ command: 'test', retry: { attempts: 2, delay: 1 } })).rejects.toThrow('command [test] exited with code 1. message: error');
+
+    expect(mockExec).toBeCalledTimes(2);
+  });
+
+  it('should not retry if shouldRetry returns false', async() => {
+    setChildProcessParams({ stderr: 'error', code: 1 });
+    const mockExec    = spyOnSpawn();
+    const shouldRetry = vi.fn((error: CommandError) => error.stderr !== 'error');
+
+    await expect(command.execAsync({ command: 'test', retry: { attempts: 3, delay: 1, shouldRetry } })).rejects.toThrow(CommandError);
+
+    expect(mockExec).toBeCalledTimes(1);
+    expect(shouldRetry).toBeCalledWith(expect.objectContaining({ stderr: 'error', exitCode: 1 }), 1, { stdout: 'stdout', stderr: 'error' });
+  });
+
+  it('should pass discarded output of quiet command to shouldRetry', async() => {
+    setChildProcessParams({ stdout: 'stdout', stderr: 'error', code: 1 });
+    const shouldRetry = vi.fn(() => false);
+
+    await expect(command.execAsync({ command: 'test', quiet: true, retry: { attempts: 3, delay: 1, shouldRetry } })).rejects.toThrow(CommandError);
+
+    expect(shouldRetry).toBeCalledWith(expect.objectContaining({ stdout: '', stderr: '' }), 1, { stdout: 'stdout', stderr: 'error' });
+  });
+
+  it('should apply quiet and suppressError after retry', async() => {
+    setChildProcessParams({ stderr: 'error', code: 1 });
+    const mockExec   = spyOnSpawn();
+    const mockStdout = spyOnStdout();
+
+    expect(await command.execAsync({ command: 'test', quiet: true, suppressError: true, retry: { attempts: 2, delay: 1, jitter: false } })).toEqual({
+      stdout: '',
+      stderr: '',
+      command: 'test',
+      exitCode: 1,
+      signal: null,
+      durationMs: expect.any(Number),
+    });
+
+    execCalledWith(mockExec, [
+      'test',
+      'test',
+    ]);
+    stdoutCalledWith(mockStdout, [
+      '> Retrying in 1ms... (2/2)',
+    ]);
+  });
+
+  it('should not retry aborted command', async() => {
+    const mockExec = spyOnSpawn();
+
+    await expect(command.execAsync({ command: 'test', signal: AbortSignal.abort(), retry: { attempts: 3, delay: 1 } })).rejects.toThrow(CommandAbortError);
+
+    expect(mockExec).not.toBeCalled();
+  });
+});
+
+describe('execAsync with dry-run', () => {
+  testChildProcess();
+  beforeEach(() => {
+    Logger.resetForTesting();
+  });
+
+  const command = new Command(new Logger(), false, { dryRun: true });
+
+  it('should not run mutating command', async() => {
+    const mockExec   = spyOnSpawn();
+    const mockStdout = spyOnStdout();
+
+    expect(await command.execAsync({ command: 'git push', args: ['origin', 'main'], cwd: 'dir', mutating: true })).toEqual({
+      stdout: '',
+      stderr: '',
+      command: 'git push origin main',
+      exitCode: 0,
+      signal: null,
+      durationMs: 0,
+      cwd: 'dir',
+    });
+
+    execCalledWith(mockExec, []);
+    stdoutCalledWith(mockStdout, [
+      '[command]git push origin main',
+      '> [dry-run] skipped.',
+    ]);
+  });
+
+  it('should run other command', async() => {
+    const mockExec = spyOnSpawn();
+
+    await command.execAsync({ command: 'git status' });
+
+    execCalledWith(mockExec, [
+      'git status',
+    ]);
+  });
+
+  it('should use env', () => {
+    process.env.UTILS_DRY_RUN = 'true';
+    expect(new Command(new Logger()).isDryRun()).toBe(true);
+
+    delete process.env.UTILS_DRY_RUN;
+    expect(new Command(new Logger()).isDryRun()).toBe(false);
+    expect(new Command(new Logger(), false, { dryRun: false }).isDryRun()).toBe(false);
+  });
 });
@@ -1,7 +1,7 @@
 import type { Context } from '@actions/github/lib/context.js';
 import type { Logger } from '@technote-space/github-action-log-helper';
 import path from 'path';
-import { getAccessToken, getActor, getBuildInfo, mask } from './utils.js';
+import { getAccessToken, getActor, getBuildInfo, getServerUrl, mask } from './utils.js';
 
 export const isRelease = (context: Context): boolean => 'release' === context.eventName;
 
@@ -29,9 +29,21 @@ export const getRepository = (context: Context): string => `${context.repo.owner
 
 const getGitUrlAuthInfo = (token: string | undefined): string => token ? `${getActor()}:${token}@` : '';
 
-export const getGitUrlWithToken = (context: Context, token?: string | undefined): string => `https://${getGitUrlAuthInfo(token)}github.com/${context.repo.owner}/${context.repo.repo}.git`;
+// serverUrl: default is GITHUB_SERVER_URL
+export const getGitServerUrlWithToken = (token?: string | undefined, serverUrl = getServerUrl()): string => {
+  const url = new URL(serverUrl);
+  return `${url.protocol}//${getGitUrlAuthInfo(token)}${url.host}${url.pathname.replace(/\/+$/, '')}/`;
+};
+
+export const getGitUrlWithToken = (context: Context, token?: string | undefined, serverUrl = getServerUrl()): string => `${getGitServerUrlWithToken(token, serverUrl)}${context.repo.owner}/${context.repo.repo}.git`;
+
+export const getGitUrl = (context: Context, accessTokenRequired = true, serverUrl?: string): string => getGitUrlWithToken(context, getAccessToken(accessTokenRequired), serverUrl);
+
+export const getGitBasicCredentials = (token: string): string => Buffer.from(`x-access-token:${token}`).toString('base64');
+
+export const getGitAuthHeader = (token: string): string => `AUTHORIZATION: basic ${getGitBasicCredentials(token)}`;
 
-export const getGitUrl = (context: Context, accessTokenRequired = true): string => getGitUrlWithToken(context, getAccessToken(accessTokenRequired));
+export const getGitExtraHeaderKey = (serverUrl = getServerUrl()): string => `http.${serverUrl.replace(/\/+$/, '')}/.extraheader`;
 
 export const showActionInfo = (rootDir: string, logger: Logger, context: Context): void => {
   const info      = getBuildInfo(path.resolve(rootDir, 'build.json'));
@@ -0,0 +1,84 @@
+import type { Executor, ExecutorRequest, ExecutorResult } from './command.js';
+import fs from 'fs';
+import path from 'path';
+import { redactSecrets } from './utils.js';
+
+export type CassetteEntry = {
+  command: string;
+  args: string[];
+  cwd?: string;
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+};
+
+// rootDir: cwd is recorded as a relative path from rootDir, so that the cassette can be replayed in other directories
+export type CassetteOptions = {
+  secrets?: string[];
+  rootDir?: string;
+};
+
+const getCwd = (cwd: string | undefined, rootDir: string | undefined): string | undefined => undefined === cwd || undefined === rootDir ?
+  cwd : (path.relative(path.resolve(rootDir), path.resolve(rootDir, cwd)).split(path.sep).join('/') || '.');
+
+// env is not recorded, secrets (incl. secrets of the command) are redacted from the cassette
+const getCassetteEntry = (request: ExecutorRequest, result: ExecutorResult, options: CassetteOptions | undefined): CassetteEntry => {
+  const secrets = [...(options?.secrets ?? []), ...(request.secrets ?? [])];
+  return {
+    command: redactSecrets(request.command, secrets),
+    args: request.args.map(arg => redactSecrets(arg, secrets)),
+    cwd: getCwd(request.cwd, options?.rootDir),
+    stdout: redactSecrets(result.stdout, secrets),
+    stderr: redactSecrets(result.stderr, secrets),
+    exitCode: result.exitCode,
+    signal: result.signal,
+  };
+};
+
+const isSameCommand = (entry: CassetteEntry, request: CassetteEntry): boolean =>
+  entry.command === request.command && entry.cwd === request.cwd && JSON.stringify(entry.args) === JSON.stringify(request.args);
+
+export class CommandRecorder implements Executor {
+  private readonly entries: CassetteEntry[] = [];
+
+  constructor(private readonly file: string, private readonly options?: CassetteOptions) {
+  }
+
+  public execute = async(request: ExecutorRequest, next: () => Promise<ExecutorResult>): Promise<ExecutorResult> => {
+    const result = await next();
+    this.entries.push(getCassetteEntry(request, result, this.options));
+    return result;
+  };
+
+  public getEntries = (): CassetteEntry[] => [...this.entries];
+
+  public save = (): void => {
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    fs.writeFileSync(this.file, JSON.stringify(this.entries, null, 2) + '\n'); // eslint-disable-line no-magic-numbers
+  };
+}
+
+// each entry is used once, in recorded order for the same command
+export class CommandReplayer implements Executor {
+  private readonly entries: CassetteEntry[];
+  private readonly used: boolean[] = [];
+
+  constructor(cassette: string | CassetteEntry[], private readonly options?: CassetteOptions) {
+    this.entries = typeof cassette === 'string' ? JSON.parse(fs.readFileSync(cassette, 'utf8')) : cassette;
+  }
+
+  public execute = async(request: ExecutorRequest): Promise<ExecutorResult> => {
+    const target = getCassetteEntry(request, { stdout: '', stderr: '', exitCode: null, signal: null }, this.options);
+    const index  = this.entries.findIndex((entry, index) => !this.used[index] && isSameCommand(entry, target));
+    if (index < 0) { // eslint-disable-line no-magic-numbers
+      throw new Error(`No recorded result for the command [${[target.command, ...target.args].join(' ')}].`);
+    }
+
+    this.used[index] = true;
+    const { stdout, stderr, exitCode, signal } = this.entries[index]!;
+    return { stdout, stderr, exitCode, signal };
+  };
+
+  public getPendingEntries = (): CassetteEntry[] => this.entries.filter((_, index) => !this.used[index]);
+}
@@ -1,8 +1,13 @@
+import type { ChangelogOptions } from './changelog.js';
+import type { CommandOptions, EnvOptions, Executor, RetryOptions } from './command.js';
+import type { VersionBumpOptions } from './utils.js';
 import type { Context } from '@actions/github/lib/context.js';
 import type { Logger } from '@technote-space/github-action-log-helper';
 import fs from 'fs';
-import Command from './command.js';
-import { getGitUrlWithToken } from './context-helper.js';
+import path from 'path';
+import { getCommitItems, renderChangelog } from './changelog.js';
+import Command, { CommandAggregateError } from './command.js';
+import { getGitAuthHeader, getGitBasicCredentials, getGitExtraHeaderKey, getGitServerUrlWithToken, getGitUrlWithToken } from './context-helper.js';
 import {
   getBranch,
   isBranch,
@@ -12,35 +17,251 @@ import {
   split,
   generateNewPatchVersion,
   arrayChunk,
-  versionCompare,
   getAccessToken,
   generateNewMinorVersion,
   generateNewMajorVersion,
   isCommandDebug,
   isOutputDebug,
+  isTransientGitError,
+  mapWithConcurrency,
+  findLastVersionTag,
+  getNextVersion,
+  uniqueArray,
 } from './utils.js';
 
-type CommandType = string | {
+type CommandType = string | Omit<CommandOptions, 'cwd'>;
+
+type CommandOutput = {
   command: string;
-  args?: string[];
-  quiet?: boolean;
-  altCommand?: string;
-  suppressError?: boolean;
-  suppressOutput?: boolean;
-  stderrToStdout?: boolean;
+  stdout: string[];
+  stderr: string[];
+  exitCode: number | null;
+};
+
+// status: M, T, A, D, R, C of the index (or the working tree if not staged), U: unmerged, ?: untracked
+// origPath: source of rename or copy
+export type DiffDetail = {
+  status: string;
+  path: string;
+  origPath?: string;
+  staged: boolean;
+  unstaged: boolean;
+  submodule: boolean;
+};
+
+type CommitPerson = {
+  name: string;
+  email: string;
+  date: string;
 };
 
+// body: includes trailers
+// files: changed files (empty for merge commits)
+export type CommitDetail = {
+  sha: string;
+  parents: string[];
+  author: CommitPerson;
+  committer: CommitPerson;
+  subject: string;
+  body: string;
+  trailers: Array<{ key: string; value: string }>;
+  files: string[];
+};
+
+// message: annotated tag
+// tagger: identity and date of annotated tag (default: committer)
+// sign: signed tag by the key, true to use user.signingkey (gpg.format: openpgp, x509 or ssh)
+export type TagOptions = {
+  message?: string;
+  tagger?: Omit<CommitPerson, 'date'> & { date?: string };
+  sign?: boolean | string;
+};
+
+// sha: commit which the tag points to
+export type TagDetail = {
+  name: string;
+  type: 'annotated' | 'lightweight';
+  sha: string;
+  message?: string;
+  tagger?: CommitPerson;
+  signed: boolean;
+};
+
+// pull: LFS objects are downloaded after checkout, skip: pointer files are checked out
+type LfsMode = 'pull' | 'skip';
+
+// url: token is embedded in remote urls, header: token is passed as http extraheader by environment variables
+type AuthMode = 'url' | 'header';
+
+// from, to: commit of the submodule (null sha if added or deleted)
+type SubmoduleDiff = {
+  path: string;
+  from: string;
+  to: string;
+};
+
+type BufferedLogger = {
+  logger: Logger;
+  flush: () => void;
+};
+
+const bufferedMethods = ['log', 'info', 'debug', 'error', 'warn', 'displayCommand', 'displayStdout', 'displayStderr', 'startProcess', 'endProcess'];
+
+// log output is kept until flush
+const getBufferedLogger = (logger: Logger): BufferedLogger => {
+  const records: Array<() => void> = [];
+  return {
+    logger: new Proxy(logger, {
+      get: (target, property, receiver) => {
+        const value = Reflect.get(target, property, receiver);
+        if (typeof property === 'string' && bufferedMethods.includes(property)) {
+          return (...args: unknown[]): void => {
+            records.push(() => value.apply(target, args));
+          };
+        }
+
+        return value;
+      },
+    }),
+    flush: (): void => records.splice(0).forEach(record => record()),
+  };
+};
+
+// number of fields before the path for each entry type of git status --porcelain=v2
+const statusFieldCounts = { '1': 8, '2': 9, 'u': 10, '?': 1 };
+
+// entries of git status --porcelain=v2 -z (path may contain spaces)
+const parseStatus = (output: string): DiffDetail[] => {
+  const tokens                = output.split('\0');
+  const details: DiffDetail[] = [];
+  while (tokens.length) {
+    const fields = tokens.shift()!.split(' ');
+    const count  = statusFieldCounts[fields[0]!];
+    if (!count) {
+      continue;
+    }
+
+    const [type, xy, submodule] = fields;
+    const path                  = fields.slice(count).join(' ');
+    if ('?' === type) {
+      details.push({ status: '?', path, staged: false, unstaged: true, submodule: false });
+    } else if ('u' === type) {
+      details.push({ status: 'U', path, staged: false, unstaged: true, submodule: submodule!.startsWith('S') });
+    } else {
+      const [staged, unstaged] = xy!;
+      details.push({
+        status: '.' === staged ? unstaged! : staged!,
+        path,
+        origPath: '2' === type ? tokens.shift() : undefined,
+        staged: '.' !== staged,
+        unstaged: '.' !== unstaged,
+        submodule: submodule!.startsWith('S'),
+      });
+    }
+  }
+
+  return details;
+};
+
+// fields are separated by unit separator, records are started by record separator
+const logFormat = `%x1e${['%H', '%P', '%an', '%ae', '%aI', '%cn', '%ce', '%cI', '%s', '%b', '%(trailers:only,unfold)'].join('%x1f')}%x1f`;
+
+// records of git log -z --name-only --format=logFormat
+const parseLog = (output: string): CommitDetail[] => output.split('\x1e').slice(1).map(record => {
+  const [sha, parents, authorName, authorEmail, authorDate, committerName, committerEmail, committerDate, subject, body, trailers, files] = record.split('\x1f');
+  return {
+    sha: sha!,
+    parents: split(parents!, ' '),
+    author: { name: authorName!, email: authorEmail!, date: authorDate! },
+    committer: { name: committerName!, email: committerEmail!, date: committerDate! },
+    subject: subject!,
+    body: body!.trim(),
+    trailers: split(trailers!.trim()).map(line => line.match(/^([^:]+):\s*(.*)$/)).filter((matches): matches is RegExpMatchArray => !!matches).map(matches => ({
+      key: matches[1]!,
+      value: matches[2]!,
+    })),
+    files: files!.split('\0').map(file => file.replace(/^\n/, '')).filter(file => file.length),
+  };
+});
+
+const tagFormat = ['%(refname)', '%(objecttype)', '%(objectname)', '%(*objectname)', '%(taggername)', '%(taggeremail)', '%(taggerdate:iso-strict)', '%(contents)', '%(contents:signature)'].join('%1f') + '%1e';
+
+// records of git for-each-ref --format=tagFormat
+const parseTags = (output: string): TagDetail[] => output.split('\x1e').map(record => record.replace(/^\n/, '').split('\x1f')).filter(fields => fields.length > 1).map(fields => { // eslint-disable-line no-magic-numbers
+  const [refname, type, objectSha, targetSha, taggerName, taggerEmail, taggerDate, contents, signature] = fields;
+  if ('tag' !== type) {
+    return { name: refname!.replace(/^refs\/tags\//, ''), type: 'lightweight', sha: objectSha!, signed: false };
+  }
+
+  return {
+    name: refname!.replace(/^refs\/tags\//, ''),
+    type: 'annotated',
+    sha: targetSha!,
+    message: (signature && contents!.endsWith(signature) ? contents!.slice(0, -signature.length) : contents!).trim(),
+    tagger: { name: taggerName!, email: taggerEmail!.replace(/^<|>$/g, ''), date: taggerDate! },
+    signed: !!signature,
+  };
+});
+
 export default class GitHelper {
   private readonly command: Command;
   private readonly cloneDepth: string;
   private readonly filter: (string) => boolean;
   private readonly token: string;
+  private readonly envOptions: EnvOptions;
+  private readonly retry?: RetryOptions;
+  private readonly dryRun?: boolean;
+  private readonly executor?: Executor;
+  private readonly auth: AuthMode;
+  private readonly serverUrl?: string;
+  private readonly cloneFilter?: string;
+  private readonly sparseCheckout: string[];
+  private readonly submodules: boolean;
+  private readonly lfs?: LfsMode;
   private origin?: string  = undefined;
   private quietIfNotOrigin = true;
 
-  constructor(private readonly logger: Logger, options?: { depth?: number; filter?: (string: string) => boolean; token?: string }) {
-    this.command = new Command(logger);
-    this.token   = options?.token ?? getAccessToken(true);
+  // retry: used for network operations (clone, fetch, push), false to disable
+  // dryRun: remote and local tags are not updated by push, deleteTag, deleteLocalTag and copyTag (default: UTILS_DRY_RUN)
+  // executor: runs instead of git processes (e.g. CommandRecorder, CommandReplayer)
+  // auth: header keeps the token out of .git/config and process arguments (default: url)
+  // serverUrl: GitHub Enterprise Server url (default: GITHUB_SERVER_URL)
+  // cloneFilter: partial clone filter (e.g. blob:none, tree:0)
+  // sparseCheckout: directories checked out in cone mode
+  // submodules: initialize and update submodules recursively after checkout
+  // lfs: handling of Git LFS objects on clone and checkout (default: smudge filter of git lfs if installed)
+  constructor(
+    private readonly logger: Logger,
+    options?: {
+      depth?: number;
+      filter?: (string: string) => boolean;
+      token?: string;
+      retry?: RetryOptions | false;
+      dryRun?: boolean;
+      executor?: Executor;
+      auth?: AuthMode;
+      serverUrl?: string;
+      cloneFilter?: string;
+      sparseCheckout?: string[];
+      submodules?: boolean;
+      lfs?: LfsMode;
+    } & EnvOptions,
+  ) {
+    this.token          = options?.token ?? getAccessToken(true);
+    this.auth           = options?.auth ?? 'url';
+    this.serverUrl      = options?.serverUrl;
+    this.cloneFilter    = options?.cloneFilter;
+    this.sparseCheckout = options?.sparseCheckout ?? [];
+    this.submodules     = options?.submodules ?? false;
+    this.lfs            = options?.lfs;
+    this.dryRun         = options?.dryRun;
+    this.executor       = options?.executor;
+    this.command        = this.createCommand(logger);
+    this.envOptions     = { env: options?.env, envMode: options?.envMode, envAllowlist: options?.envAllowlist };
+    this.retry          = options?.retry === false ? undefined : {
+      shouldRetry: (error, _attempt, output): boolean => isTransientGitError([error.message, output.stderr, output.stdout].join('\n')),
+      ...options?.retry,
+    };
 
     if (options && options.depth) {
       this.cloneDepth = options.depth > 0 ? `--depth=${options.depth}` : ''; // eslint-disable-line no-magic-numbers
@@ -55,29 +276,40 @@ export default class GitHelper {
     }
   }
 
+  private createCommand = (logger: Logger): Command => new Command(logger, false, {
+    secrets: [this.token, this.token ? getGitBasicCredentials(this.token) : ''],
+    dryRun: this.dryRun,
+    executor: this.executor,
+  });
+
   private shouldSuppressError = (): boolean => !isCommandDebug();
 
   private isQuiet = (): boolean => !isOutputDebug() && (!this.origin || this.quietIfNotOrigin);
 
-  public runCommand = async(workDir: string, commands: CommandType | CommandType[]): Promise<{ command: string; stdout: string[]; stderr: string[] }[]> => {
-    const result: { command: string; stdout: string[]; stderr: string[] }[] = [];
+  private getEnvOptions = (command: EnvOptions): EnvOptions => ({
+    env: this.envOptions.env || command.env ? { ...this.envOptions.env, ...command.env } : undefined,
+    envMode: command.envMode ?? this.envOptions.envMode,
+    envAllowlist: command.envAllowlist ?? this.envOptions.envAllowlist,
+  });
+
+  private execCommand = async(command: Command, workDir: string, commandType: CommandType): Promise<CommandOutput> => {
+    const output = typeof commandType === 'string' ?
+      await command.execAsync({ command: commandType, cwd: workDir, ...this.getEnvOptions({}) }) :
+      await command.execAsync({ cwd: workDir, ...commandType, ...this.getEnvOptions(commandType) });
+
+    return {
+      command: output.command,
+      stdout: split(output.stdout),
+      stderr: split(output.stderr),
+      exitCode: output.exitCode,
+    };
+  };
+
+  public runCommand = async(workDir: string, commands: CommandType | CommandType[]): Promise<CommandOutput[]> => {
+    const result: CommandOutput[] = [];
     try {
       for (const command of (Array.isArray(commands) ? commands : [commands])) {
-        if (typeof command === 'string') {
-          const output = (await this.command.execAsync({ command, cwd: workDir }));
-          result.push({
-            command: output.command,
-            stdout: split(output.stdout),
-            stderr: split(output.stderr),
-          });
-        } else {
-          const output = (await this.command.execAsync({ cwd: workDir, ...command }));
-          result.push({
-            command: output.command,
-            stdout: split(output.stdout),
-            stderr: split(output.stderr),
-          });
-        }
+        result.push(await this.execCommand(this.command, workDir, command));
       }
       return result;
     } catch (error) {
@@ -87,6 +319,39 @@ export default class GitHelper {
     }
   };
 
+  // commands should not depend on each other
+  // log output of each command is displayed in input order once the command and all preceding commands have finished
+  public runCommandsParallel = async(workDir: string, commands: CommandType[], concurrency = 4): Promise<CommandOutput[]> => { // eslint-disable-line no-magic-numbers
+    const loggers             = commands.map(() => getBufferedLogger(this.logger));
+    const finished: boolean[] = [];
+    let flushed               = 0;
+    const results             = await mapWithConcurrency(commands, concurrency, async(command, index) => {
+      try {
+        return await this.execCommand(this.createCommand(loggers[index]!.logger), workDir, command);
+      } finally {
+        finished[index] = true;
+        while (finished[flushed]) {
+          loggers[flushed++]!.flush();
+        }
+      }
+    });
+
+    const errors = results.flatMap(result => 'rejected' === result.status ? [result.reason as Error] : []);
+    if (errors.length) {
+      errors.forEach(error => {
+        console.log();
+        console.log(error);
+      });
+      throw new CommandAggregateError(
+        `${errors.length} of ${commands.length} commands failed.`,
+        errors,
+        results.map(result => 'fulfilled' === result.status ? result.value : undefined),
+      );
+    }
+
+    return results.map(result => (result as PromiseFulfilledResult<CommandOutput>).value);
+  };
+
   private initialize = async(workDir: string, refresh = true): Promise<void> => {
     if (isCloned(workDir) && !refresh) {
       return;
@@ -108,19 +373,137 @@ export default class GitHelper {
 
   public getRemoteName = (): string | never => this.origin ?? 'origin';
 
-  private getRemote = (context: Context): string => this.origin ?? getGitUrlWithToken(context, this.token);
+  private getRemoteUrl = (context: Context): string => getGitUrlWithToken(context, 'url' === this.auth ? this.token : undefined, this.serverUrl);
+
+  private getRemote = (context: Context): string => this.origin ?? this.getRemoteUrl(context);
+
+  // git >= 2.31 reads config from GIT_CONFIG_COUNT, GIT_CONFIG_KEY_n and GIT_CONFIG_VALUE_n
+  private getConfigEnv = (configs: Array<[string, string]>): NodeJS.ProcessEnv | undefined => configs.length ? Object.assign(
+    { 'GIT_CONFIG_COUNT': `${configs.length}` },
+    ...configs.map(([key, value], index) => ({ [`GIT_CONFIG_KEY_${index}`]: key, [`GIT_CONFIG_VALUE_${index}`]: value })),
+  ) : undefined;
+
+  // an empty extraheader resets the headers already configured (e.g. persisted by actions/checkout), otherwise both are sent
+  private getAuthConfigs = (): Array<[string, string]> => 'header' === this.auth && this.token ? [
+    [getGitExtraHeaderKey(this.serverUrl), ''],
+    [getGitExtraHeaderKey(this.serverUrl), getGitAuthHeader(this.token)],
+  ] : [];
+
+  // submodules on the same host are fetched with the token (ssh urls are rewritten to https)
+  // the rewrite is applied at runtime, so the token is not persisted to .gitmodules or .git/modules
+  private getSubmoduleAuthConfigs = (): Array<[string, string]> => {
+    const serverUrl = getGitServerUrlWithToken(undefined, this.serverUrl);
+    const authUrl   = getGitServerUrlWithToken('url' === this.auth ? this.token : undefined, serverUrl);
+    return [
+      [`url.${authUrl}.insteadOf`, `git@${new URL(serverUrl).hostname}:`],
+      ...(authUrl !== serverUrl ? [[`url.${authUrl}.insteadOf`, serverUrl] as [string, string]] : []),
+    ];
+  };
+
+  private getNetworkOptions = (submodules = false): Pick<CommandOptions, 'retry' | 'env'> => ({
+    retry: this.retry,
+    env: this.getConfigEnv([...this.getAuthConfigs(), ...(submodules ? this.getSubmoduleAuthConfigs() : [])]),
+  });
+
+  // smudge is also skipped for pull, since objects are fetched in a batch by git lfs pull
+  private getLfsEnv = (): NodeJS.ProcessEnv | undefined => this.lfs ? { 'GIT_LFS_SKIP_SMUDGE': '1' } : undefined;
+
+  private getCheckoutOptions = (submodules = false): Pick<CommandOptions, 'retry' | 'env'> => {
+    const options = this.getNetworkOptions(submodules);
+    return this.lfs ? { ...options, env: { ...options.env, ...this.getLfsEnv() } } : options;
+  };
+
+  private getFilterArgs = (): string[] => this.cloneFilter ? [`--filter=${this.cloneFilter}`] : [];
+
+  // fetch by URL with filter registers the URL (which may include the token) as another promisor remote,
+  // so a partial clone is fetched through the remote set up by clone (with remote.<name>.partialclonefilter)
+  private getFetchRemote = (context: Context): string => this.cloneFilter ? this.getRemoteName() : this.getRemote(context);
+
+  // checkout of a partial clone fetches missing objects from the promisor remote on demand
+  private getObjectFetchOptions = (): Pick<CommandOptions, 'env'> => ({ env: this.getCheckoutOptions().env });
+
+  private getCloneArgs = (): string[] => [this.cloneDepth, ...this.getFilterArgs(), this.sparseCheckout.length ? '--sparse' : ''];
+
+  private getSparseCheckoutCommands = (): CommandType[] => this.sparseCheckout.length ? [{
+    command: 'git sparse-checkout',
+    args: ['set', '--cone', ...this.sparseCheckout],
+    stderrToStdout: true,
+    ...this.getObjectFetchOptions(),
+  }] : [];
+
+  private getSubmoduleCommands = (): CommandType[] => this.submodules ? [{
+    command: 'git submodule',
+    args: ['update', '--init', '--recursive'],
+    stderrToStdout: true,
+    ...this.getCheckoutOptions(true),
+  }] : [];
+
+  private getLfsCommands = (): CommandType[] => 'pull' === this.lfs ? [{
+    command: 'git lfs',
+    args: ['pull'],
+    stderrToStdout: true,
+    ...this.getNetworkOptions(),
+  }] : [];
 
   public addOrigin = async(workDir: string, context: Context): Promise<void> => {
     await this.initialize(workDir, false);
     await this.runCommand(workDir, {
       command: 'git remote add',
-      args: [this.getRemoteName(), getGitUrlWithToken(context, this.token)],
+      args: [this.getRemoteName(), this.getRemoteUrl(context)],
       stderrToStdout: this.isQuiet(),
       altCommand: `git remote add ${this.getRemoteName()}`,
       suppressError: this.shouldSuppressError(),
     });
   };
 
+  // remove credentials persisted in the working copy (remote urls with token, http extraheader)
+  // remote named by URL (e.g. promisor remote registered by fetch with filter)
+  // the config file is read because the output of commands is redacted
+  private getRemoteSectionsWithCredentials = (workDir: string): string[] => {
+    const config = path.resolve(workDir, '.git', 'config');
+    if (!fs.existsSync(config)) {
+      return [];
+    }
+
+    return uniqueArray([...fs.readFileSync(config, 'utf8').matchAll(/^\s*\[remote "(https?:\/\/[^/@"]+@[^"]*)"\]/gm)].map(matches => matches[1]!));
+  };
+
+  public cleanupCredentials = async(workDir: string): Promise<void> => {
+    if (!isCloned(workDir)) {
+      return;
+    }
+
+    const credentialPattern = /^(https?:\/\/)[^/@]+@/;
+    const [urls, headers]   = await this.runCommand(workDir, [
+      {
+        command: 'git config',
+        args: ['--local', '--get-regexp', '^remote\\..*\\.url$'],
+        suppressOutput: true,
+        suppressError: true,
+      },
+      {
+        command: 'git config',
+        args: ['--local', '--name-only', '--get-regexp', '^http\\..*\\.extraheader$'],
+        suppressOutput: true,
+        suppressError: true,
+      },
+    ]);
+    await this.runCommand(workDir, [
+      ...urls!.stdout.map(line => line.split(/\s+/)).filter(([, url]) => url && credentialPattern.test(url)).map(([key, url]) => ({
+        command: 'git config',
+        args: ['--local', key!, url!.replace(credentialPattern, '$1')],
+      })),
+      ...headers!.stdout.map(key => ({
+        command: 'git config',
+        args: ['--local', '--unset-all', key],
+      })),
+      ...this.getRemoteSectionsWithCredentials(workDir).map(url => ({
+        command: 'git config',
+        args: ['--local', '--remove-section', `remote.${url}`],
+      })),
+    ]);
+  };
+
   public getCurrentBranchName = async(workDir: string): Promise<string> => {
     if (!isCloned(workDir)) {
       return '';
@@ -134,35 +517,47 @@ export default class GitHelper {
   };
 
   public cloneBranch = async(workDir: string, branch: string, context: Context): Promise<void> => {
-    await this.runCommand(workDir, {
-      command: 'git clone',
-      args: [`--branch=${branch}`, this.cloneDepth, this.getRemote(context), '.'],
-      stderrToStdout: this.isQuiet(),
-      altCommand: `git clone --branch=${branch}`,
-      suppressError: this.shouldSuppressError(),
-    });
+    await this.runCommand(workDir, [
+      {
+        command: 'git clone',
+        args: [`--branch=${branch}`, ...this.getCloneArgs(), this.getRemote(context), '.'],
+        stderrToStdout: this.isQuiet(),
+        altCommand: `git clone --branch=${branch}`,
+        suppressError: this.shouldSuppressError(),
+        ...this.getCheckoutOptions(),
+      },
+      ...this.getSparseCheckoutCommands(),
+      ...this.getLfsCommands(),
+      ...this.getSubmoduleCommands(),
+    ]);
   };
 
   private clonePR = async(workDir: string, context: Context): Promise<void> => {
     await this.runCommand(workDir, [
       {
         command: 'git clone',
-        args: [this.cloneDepth, this.getRemote(context), '.'],
+        args: [...this.getCloneArgs(), this.getRemote(context), '.'],
         stderrToStdout: this.isQuiet(),
         altCommand: 'git clone',
         suppressError: this.shouldSuppressError(),
+        ...this.getCheckoutOptions(),
       },
       {
         command: 'git fetch',
-        args: [this.getRemote(context), `+${context.ref}`],
+        args: [...this.getFilterArgs(), this.getFetchRemote(context), `+${context.ref}`],
         quiet: this.isQuiet(),
         altCommand: `git fetch ${this.getRemoteName()} ${context.ref}`,
         stderrToStdout: true,
+        ...this.getNetworkOptions(),
       },
+      ...this.getSparseCheckoutCommands(),
       {
         command: 'git checkout',
         args: ['-qf', 'FETCH_HEAD'],
+        ...this.getObjectFetchOptions(),
       },
+      ...this.getLfsCommands(),
+      ...this.getSubmoduleCommands(),
     ]);
   };
 
@@ -196,17 +591,22 @@ export default class GitHelper {
       ],
       suppressError: this.shouldSuppressError(),
       stderrToStdout: true,
+      ...this.getNetworkOptions(),
     });
   };
 
   public checkout = async(workDir: string, context: Context): Promise<void> => {
-    await this.fetchOrigin(workDir, context, ['--no-tags'], [getRefspec(context)]);
+    await this.fetchOrigin(workDir, context, ['--no-tags', ...this.getFilterArgs()], [getRefspec(context)]);
     await this.runCommand(workDir, [
+      ...this.getSparseCheckoutCommands(),
       {
         command: 'git checkout',
         args: ['-qf', context.sha],
         stderrToStdout: true,
+        ...this.getObjectFetchOptions(),
       },
+      ...this.getLfsCommands(),
+      ...this.getSubmoduleCommands(),
     ]);
   };
 
@@ -214,10 +614,21 @@ export default class GitHelper {
     const branchName = getBranch(branch, false);
     await this.runCommand(workDir, {
       command: 'git fetch',
-      args: ['--prune', '--no-tags', '--no-recurse-submodules', this.cloneDepth, this.getRemote(context), `+refs/heads/${branchName}:refs/remotes/${this.getRemoteName()}/${branchName}`],
+      args: ['--prune', '--no-tags', '--no-recurse-submodules', this.cloneDepth, ...this.getFilterArgs(), this.getFetchRemote(context), `+refs/heads/${branchName}:refs/remotes/${this.getRemoteName()}/${branchName}`],
       altCommand: `git fetch --prune --no-tags --no-recurse-submodules${this.cloneDepth} ${this.getRemoteName()} +refs/heads/${branchName}:refs/remotes/${this.getRemoteName()}/${branchName}`,
       suppressError: this.shouldSuppressError(),
       stderrToStdout: true,
+      ...this.getNetworkOptions(),
+    });
+  };
+
+  // widen the sparse checkout (cone mode) set
+  public addSparseCheckout = async(workDir: string, paths: string[]): Promise<void> => {
+    await this.runCommand(workDir, {
+      command: 'git sparse-checkout',
+      args: ['add', ...paths],
+      stderrToStdout: true,
+      ...this.getObjectFetchOptions(),
     });
   };
 
@@ -240,7 +651,8 @@ export default class GitHelper {
     });
   };
 
-  public config = async(workDir: string, config: { name?: string, email?: string, defaultBranch?: string }): Promise<void> => {
+  // signingKey: used for signed tags (sign: true), signingFormat: gpg.format
+  public config = async(workDir: string, config: { name?: string, email?: string, defaultBranch?: string, signingKey?: string, signingFormat?: 'openpgp' | 'x509' | 'ssh' }): Promise<void> => {
     if (config.defaultBranch) {
       await this.runCommand(workDir, [
         {
@@ -265,13 +677,67 @@ export default class GitHelper {
         },
       ]);
     }
+    if (config.signingKey) {
+      await this.runCommand(workDir, [
+        {
+          command: 'git config',
+          args: ['user.signingkey', config.signingKey],
+        },
+      ]);
+    }
+    if (config.signingFormat) {
+      await this.runCommand(workDir, [
+        {
+          command: 'git config',
+          args: ['gpg.format', config.signingFormat],
+        },
+      ]);
+    }
   };
 
-  public getDiff = async(workDir: string): Promise<string[]> => (await this.runCommand(workDir, {
+  // includeUntracked: untracked files are also listed (status: ?)
+  public getDiffDetails = async(workDir: string, options?: { includeUntracked?: boolean }): Promise<DiffDetail[]> => parseStatus((await this.runCommand(workDir, {
     command: 'git status',
-    args: ['--short', '-uno'],
+    args: ['--porcelain=v2', '-z', options?.includeUntracked ? '--untracked-files=all' : '-uno'],
     suppressOutput: true,
-  }))[0]!.stdout.filter(line => line.match(/^[MDA]\s+/)).filter(this.filter).map(line => line.replace(/^[MDA]\s+/, ''));
+  }))[0]!.stdout.join('\n'));
+
+  // staged changes
+  // the source of a rename is also included so that it is deleted when the files are committed by the API
+  // excludeSubmodules: submodule pointer changes (see getSubmoduleDiff) are not included
+  public getDiff = async(workDir: string, options?: { excludeSubmodules?: boolean }): Promise<string[]> => (await this.getDiffDetails(workDir))
+    .filter(detail => detail.staged && !(options?.excludeSubmodules && detail.submodule))
+    .flatMap(detail => 'R' === detail.status && detail.origPath ? [detail.path, detail.origPath] : [detail.path])
+    .filter(this.filter);
+
+  // staged changes of gitlinks (mode 160000)
+  public getSubmoduleDiff = async(workDir: string): Promise<SubmoduleDiff[]> => (await this.runCommand(workDir, {
+    command: 'git diff',
+    args: ['--cached', '--raw', '--no-abbrev'],
+    suppressOutput: true,
+  }))[0]!.stdout.map(line => line.match(/^:(\d{6}) (\d{6}) ([0-9a-f]+) ([0-9a-f]+) [A-Z]\d*\t(.+)$/)).filter((matches): matches is RegExpMatchArray => !!matches && ('160000' === matches[1] || '160000' === matches[2])).map(matches => ({
+    path: matches[5]!,
+    from: matches[3]!,
+    to: matches[4]!,
+  }));
+
+  // from: excluded, to: included (default: HEAD)
+  // skip, maxCount: used to paginate through long ranges
+  public getCommits = async(workDir: string, options?: { from?: string; to?: string; paths?: string[]; maxCount?: number; skip?: number; firstParent?: boolean }): Promise<CommitDetail[]> => parseLog((await this.runCommand(workDir, {
+    command: 'git log',
+    args: [
+      '-z',
+      '--name-only',
+      `--format=${logFormat}`,
+      options?.maxCount ? `--max-count=${options.maxCount}` : '',
+      options?.skip ? `--skip=${options.skip}` : '',
+      options?.firstParent ? '--first-parent' : '',
+      options?.from ? `${options.from}..${options?.to ?? 'HEAD'}` : (options?.to ?? 'HEAD'),
+      '--',
+      ...(options?.paths ?? []),
+    ],
+    suppressOutput: true,
+  }))[0]!.stdout.join('\n'));
 
   public getRefDiff = async(workDir: string, baseRef: string, compareRef: string, diffFilter?: string, dot?: '..' | '...'): Promise<string[]> => {
     const toDiffRef = (ref: string): string =>
@@ -299,6 +765,33 @@ export default class GitHelper {
     return true;
   };
 
+  // the submodule should be initialized
+  public updateSubmodule = async(workDir: string, submodulePath: string, ref: string, message: string): Promise<boolean> => {
+    await this.runCommand(path.resolve(workDir, submodulePath), [
+      {
+        command: 'git fetch',
+        args: ['origin', ref],
+        suppressError: this.shouldSuppressError(),
+        stderrToStdout: true,
+        ...this.getNetworkOptions(true),
+      },
+      {
+        command: 'git checkout',
+        args: ['-qf', 'FETCH_HEAD'],
+        stderrToStdout: true,
+      },
+    ]);
+    await this.runCommand(workDir, { command: 'git add', args: ['--', submodulePath] });
+
+    if (!(await this.getSubmoduleDiff(workDir)).some(diff => diff.path === submodulePath)) {
+      this.logger.info('There is no diff.');
+      return false;
+    }
+
+    await this.makeCommit(workDir, message);
+    return true;
+  };
+
   public makeCommit = async(workDir: string, message: string, options?: { count?: number; allowEmpty?: boolean; args?: Array<string> }): Promise<void> => {
     const count      = options?.count ?? 10; // eslint-disable-line no-magic-numbers
     const allowEmpty = options?.allowEmpty ?? false;
@@ -306,8 +799,9 @@ export default class GitHelper {
 
     await this.runCommand(workDir, [
       {
-        command: 'git commit',
-        args: [allowEmpty ? '--allow-empty' : '', ...args, '-qm', message],
+        command: 'git',
+        args: ['commit', allowEmpty ? '--allow-empty' : '', ...args, '-qm', message],
+        shell: false,
       },
       {
         command: 'git show',
@@ -334,6 +828,7 @@ export default class GitHelper {
         args: [this.getRemote(context), '--tags'],
         quiet: this.isQuiet(),
         altCommand: `git fetch ${this.getRemoteName()} --tags`,
+        ...this.getNetworkOptions(),
       },
     ]);
   };
@@ -347,23 +842,29 @@ export default class GitHelper {
         stderrToStdout: this.isQuiet(),
         altCommand: `git push ${this.getRemoteName()} --delete ${tags.join(' ')}`,
         suppressError: this.shouldSuppressError(),
+        ...this.getNetworkOptions(),
+        mutating: true,
       })),
     );
     await this.deleteLocalTag(workDir, tags, splitSize);
   };
 
-  public copyTag = async(workDir: string, newTag: string, fromTag: string, context: Context): Promise<void> => {
+  // message and tagger of annotated tag are preserved (signature is not preserved, use options.sign to sign again)
+  public copyTag = async(workDir: string, newTag: string, fromTag: string, context: Context, options?: TagOptions): Promise<void> => {
+    const info = await this.getTagInfo(workDir, fromTag);
     await this.deleteTag(workDir, newTag, context);
     await this.runCommand(workDir, [
       {
-        command: 'git tag',
-        args: [newTag, fromTag],
+        ...('annotated' === info?.type ? this.getTagCommand(newTag, info.sha, { message: info.message, tagger: info.tagger, ...options }) : this.getTagCommand(newTag, fromTag, options)),
+        mutating: true,
       },
       {
         command: 'git push',
         args: [this.getRemote(context), `refs/tags/${newTag}`],
         stderrToStdout: this.isQuiet(),
         altCommand: `git push ${this.getRemoteName()} refs/tags/${newTag}`,
+        ...this.getNetworkOptions(),
+        mutating: true,
       },
     ]);
   };
@@ -376,20 +877,49 @@ export default class GitHelper {
         args: ['-d', ...tags],
         suppressError: this.shouldSuppressError(),
         stderrToStdout: true,
+        mutating: true,
       }),
     ));
   };
 
-  public addLocalTag = async(workDir: string, tags: string | string[]): Promise<void> => {
+  private getTagCommand = (tag: string, target?: string, options?: TagOptions): Exclude<CommandType, string> => {
+    if (!options?.message && !options?.sign) {
+      return { command: 'git tag', args: [tag, target ?? ''] };
+    }
+
+    const signArgs = options.sign ? (typeof options.sign === 'string' ? ['-u', options.sign] : ['-s']) : ['-a'];
+    return {
+      command: 'git',
+      args: ['tag', ...signArgs, '-m', options.message || tag, tag, ...(target ? [target] : [])],
+      shell: false,
+      env: options.tagger ? {
+        'GIT_COMMITTER_NAME': options.tagger.name,
+        'GIT_COMMITTER_EMAIL': options.tagger.email,
+        ...(options.tagger.date ? { 'GIT_COMMITTER_DATE': options.tagger.date } : {}),
+      } : undefined,
+    };
+  };
+
+  public addLocalTag = async(workDir: string, tags: string | string[], options?: TagOptions): Promise<void> => {
     if ('string' === typeof tags) {
-      await this.runCommand(workDir, { command: 'git tag', args: [tags] });
+      await this.runCommand(workDir, this.getTagCommand(tags, undefined, options));
     } else {
       for (const tag of tags) {
-        await this.addLocalTag(workDir, tag);
+        await this.addLocalTag(workDir, tag, options);
       }
     }
   };
 
+  // undefined if the tag does not exist
+  public getTagInfo = async(workDir: string, tag: string): Promise<TagDetail | undefined> => {
+    const name = tag.replace(/^(refs\/)?tags\//, '');
+    return parseTags((await this.runCommand(workDir, {
+      command: 'git for-each-ref',
+      args: [`--format=${tagFormat}`, `refs/tags/${name}`],
+      suppressOutput: true,
+    }))[0]!.stdout.join('\n')).find(info => info.name === name);
+  };
+
   public push = async(workDir: string, branch: string, context: Context, options?: { withTag?: boolean; force?: boolean; args?: Array<string> }): Promise<void> => {
     const args: Array<string> = [];
     if (options?.withTag) {
@@ -402,10 +932,13 @@ export default class GitHelper {
       args.push(...options.args);
     }
     await this.runCommand(workDir, {
-      command: 'git push',
-      args: args.concat([this.getRemote(context), `${branch}:refs/heads/${branch}`]),
+      command: 'git',
+      args: ['push', ...args, this.getRemote(context), `${branch}:refs/heads/${branch}`],
+      shell: false,
       stderrToStdout: this.isQuiet(),
       altCommand: `git push ${args.concat([this.getRemoteName(), `${branch}:refs/heads/${branch}`]).join(' ')}`,
+      ...this.getNetworkOptions(),
+      mutating: true,
     });
   };
 
@@ -416,7 +949,7 @@ export default class GitHelper {
       throw new Error('Not a git repository');
     }
 
-    return 'v' + ((await this.getTags(workDir)).filter(tag => /^v?\d+(\.\d+)*$/.test(tag)).sort(versionCompare).reverse()[0]?.replace(/^v/, '') ?? '0.0.0');
+    return 'v' + (findLastVersionTag(await this.getTags(workDir))?.replace(/^v/, '') ?? '0.0.0');
   };
 
   public getNewPatchVersion = async(workDir: string): Promise<string> => generateNewPatchVersion(await this.getLastTag(workDir));
@@ -424,4 +957,22 @@ export default class GitHelper {
   public getNewMinorVersion = async(workDir: string): Promise<string> => generateNewMinorVersion(await this.getLastTag(workDir));
 
   public getNewMajorVersion = async(workDir: string): Promise<string> => generateNewMajorVersion(await this.getLastTag(workDir));
+
+  // by Conventional Commits since the last tag (undefined if there is no commit to release)
+  public getNextVersion = async(workDir: string, options?: VersionBumpOptions): Promise<string | undefined> => {
+    if (!isCloned(workDir)) {
+      throw new Error('Not a git repository');
+    }
+
+    const tag     = findLastVersionTag(await this.getTags(workDir));
+    const commits = await this.getCommits(workDir, { from: tag });
+    return getNextVersion(tag ?? 'v0.0.0', commits.map(commit => `${commit.subject}\n\n${commit.body}`), options);
+  };
+
+  // grouped by Conventional Commits type of commits between from (default: last version tag) and to (default: HEAD)
+  public generateChangelog = async(workDir: string, version: string, options?: ChangelogOptions & { from?: string; to?: string; date?: string }): Promise<string> => {
+    const from = options?.from ?? findLastVersionTag(await this.getTags(workDir));
+    const to   = options?.to ?? 'HEAD';
+    return renderChangelog(version, getCommitItems(await this.getCommits(workDir, { from, to })), { ...options, from, to });
+  };
 }
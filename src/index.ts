@@ -1,7 +1,12 @@
+import type { TreeEntry } from './api-helper.js';
+import type { EnvMode, CommandResult, RetryOptions, Executor, ExecutorRequest, ExecutorResult } from './command.js';
+import type { CassetteEntry, CassetteOptions } from './executor.js';
+import type { DiffDetail, CommitDetail } from './git-helper.js';
 import type { Octokit, components } from './types.js';
 import crypto from 'crypto';
 import ApiHelper from './api-helper.js';
-import Command from './command.js';
+import Command, { CommandError, CommandTimeoutError, CommandAbortError, CommandAggregateError } from './command.js';
+import { CommandRecorder, CommandReplayer } from './executor.js';
 import GitHelper from './git-helper.js';
 
 if (typeof global.crypto !== 'object') {
@@ -18,6 +23,7 @@ function getRandomValues(array) {
 
 export * as Utils from './utils.js';
 export * as ContextHelper from './context-helper.js';
+export * as Changelog from './changelog.js';
 
-export type { Octokit, components };
-export { Command, ApiHelper, GitHelper };
+export type { Octokit, components, EnvMode, CommandResult, RetryOptions, Executor, ExecutorRequest, ExecutorResult, CassetteEntry, CassetteOptions, DiffDetail, CommitDetail, TreeEntry };
+export { Command, CommandError, CommandTimeoutError, CommandAbortError, CommandAggregateError, CommandRecorder, CommandReplayer, ApiHelper, GitHelper };
@@ -1,11 +1,13 @@
 import type { Octokit } from './types.js';
 import type { Context } from '@actions/github/lib/context.js';
+import type { Logger } from '@technote-space/github-action-log-helper';
 import fs from 'fs';
 import path from 'path';
-import { getInput } from '@actions/core' ;
+import { getInput, setSecret as setCoreSecret } from '@actions/core' ;
 import { getOctokit as getOctokitInstance } from '@actions/github';
 
 type RefObject = { ref: string }
+const secrets = new Set<string>();
 const getRef = (ref: string | RefObject): string => typeof ref === 'string' ? ref : ref.ref;
 
 export const getBuildInfo = (filepath: string): {
@@ -140,7 +142,85 @@ export const getRefspec = (ref: string | RefObject, origin = 'origin'): string =
 
 export const getAccessToken = (required: boolean): string => getInput('GITHUB_TOKEN', { required });
 
-export const getOctokit = (token?: string): Octokit => getOctokitInstance(token ?? getAccessToken(true), {}) as Octokit;
+// GitHub Enterprise Server: GITHUB_SERVER_URL (e.g. https://ghes.example.com)
+export const getServerUrl = (): string => (process.env.GITHUB_SERVER_URL || 'https://github.com').replace(/\/+$/, '');
+
+// GitHub Enterprise Server: GITHUB_API_URL (e.g. https://ghes.example.com/api/v3)
+export const getApiUrl = (): string => (process.env.GITHUB_API_URL || 'https://api.github.com').replace(/\/+$/, '');
+
+// retries: max number of retries of rate limited requests and server errors (default: 3)
+// delay: base delay (ms) of retries of server errors, doubled on each retry (default: 1000)
+// maxWait: requests are not retried if the rate limit is reset later than this (ms) (default: 60000)
+export type ThrottleOptions = {
+  retries?: number;
+  delay?: number;
+  maxWait?: number;
+  logger?: Logger;
+};
+
+type RequestError = Error & { status?: number; response?: { headers?: Record<string, string | number | undefined> } };
+
+// retry-after (secondary rate limit) or x-ratelimit-reset (primary rate limit)
+const getRateLimitWait = (status: number | undefined, headers: Record<string, string | number | undefined>): number | undefined => {
+  if (undefined !== headers['retry-after']) {
+    return Number(headers['retry-after']) * 1000; // eslint-disable-line no-magic-numbers
+  }
+
+  if ((403 === status || 429 === status) && '0' === String(headers['x-ratelimit-remaining']) && undefined !== headers['x-ratelimit-reset']) { // eslint-disable-line no-magic-numbers
+    return Math.max(Number(headers['x-ratelimit-reset']) * 1000 - Date.now(), 0); // eslint-disable-line no-magic-numbers
+  }
+
+  return undefined;
+};
+
+const getRequestRetryDelay = (error: RequestError, attempt: number, options: ThrottleOptions): number | undefined => {
+  const wait = getRateLimitWait(error.status, error.response?.headers ?? {});
+  if (undefined !== wait) {
+    return wait;
+  }
+
+  return error.status && error.status >= 500 ? (options.delay ?? 1000) * 2 ** (attempt - 1) : undefined; // eslint-disable-line no-magic-numbers
+};
+
+const addThrottling = (octokit: Octokit, options: ThrottleOptions): Octokit => {
+  const retries = options.retries ?? 3; // eslint-disable-line no-magic-numbers
+  const maxWait = options.maxWait ?? 60000; // eslint-disable-line no-magic-numbers
+  let resetAt   = 0;
+  octokit.hook.wrap('request', async(request, requestOptions) => {
+    // quota has been exhausted by the previous response
+    const wait = resetAt - Date.now();
+    if (wait > 0 && wait <= maxWait) {
+      options.logger?.warn('API rate limit exceeded. Waiting %dms... [%s %s]', wait, requestOptions.method, requestOptions.url);
+      await sleep(wait);
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response = await request(requestOptions);
+        resetAt        = '0' === String(response.headers['x-ratelimit-remaining']) ? Number(response.headers['x-ratelimit-reset']) * 1000 : 0; // eslint-disable-line no-magic-numbers
+        return response;
+      } catch (error) {
+        const delay = attempt <= retries ? getRequestRetryDelay(error as RequestError, attempt, options) : undefined;
+        if (undefined === delay || delay > maxWait) {
+          throw error;
+        }
+
+        options.logger?.warn('Retrying in %dms... (%d/%d) [%s %s] %s', delay, attempt, retries, requestOptions.method, requestOptions.url, (error as Error).message);
+        await sleep(delay);
+      }
+    }
+  });
+
+  return octokit;
+};
+
+// throttle: retries of rate limited requests and server errors
+export const getOctokit = (token?: string, options?: { baseUrl?: string; throttle?: boolean | ThrottleOptions }): Octokit => {
+  const octokit = getOctokitInstance(token ?? getAccessToken(true), {
+    baseUrl: options?.baseUrl ?? getApiUrl(),
+  }) as Octokit;
+  return options?.throttle ? addThrottling(octokit, options.throttle === true ? {} : options.throttle) : octokit;
+};
 
 export const getActor = (): string => process.env.GITHUB_ACTOR || '';
 
@@ -197,6 +277,89 @@ export const generateNewPatchVersion = (lastTag: string): string => generateNewV
 export const generateNewMinorVersion = (lastTag: string): string => generateNewVersion(lastTag, 1); // eslint-disable-line no-magic-numbers
 export const generateNewMajorVersion = (lastTag: string): string => generateNewVersion(lastTag, 0); // eslint-disable-line no-magic-numbers
 
+export type ConventionalCommit = {
+  type: string;
+  scope?: string;
+  breaking: boolean;
+  description: string;
+  body: string;
+  footers: Array<{ key: string; value: string }>;
+};
+
+export type VersionBump = 'major' | 'minor' | 'patch';
+
+// types: bump of each commit type (default: feat: minor, fix: patch, perf: patch)
+// preMajor: bump of 0.x versions is lowered by one level (breaking change: minor, minor: patch) (default: true)
+export type VersionBumpOptions = {
+  types?: Record<string, VersionBump>;
+  preMajor?: boolean;
+};
+
+const versionBumps: VersionBump[]                           = ['major', 'minor', 'patch'];
+const defaultVersionBumpTypes: Record<string, VersionBump> = { feat: 'minor', fix: 'patch', perf: 'patch' };
+
+const getFooter = (line: string): { key: string; value: string } | undefined => {
+  const matches = line.match(/^(BREAKING[ -]CHANGE|[\w-]+)(?:: | #)(.*)$/);
+  return matches ? { key: matches[1]!, value: matches[2]! } : undefined;
+};
+
+// lines which are not a footer are continuation of the previous footer
+const parseFooters = (paragraph: string): Array<{ key: string; value: string }> => split(paragraph).reduce((acc, line) => {
+  const footer = getFooter(line);
+  if (footer) {
+    acc.push(footer);
+  } else {
+    acc[acc.length - 1]!.value += `\n${line}`; // eslint-disable-line no-magic-numbers
+  }
+  return acc;
+}, [] as Array<{ key: string; value: string }>);
+
+// https://www.conventionalcommits.org/en/v1.0.0/
+// <type>[(scope)][!]: <description>, [body], [footers]
+export const parseConventionalCommit = (message: string): ConventionalCommit | undefined => {
+  const [header, ...lines] = split(message.trim());
+  const matches            = header?.match(/^(\w[\w-]*)(?:\(([^()]*)\))?(!)?: (.+)$/);
+  if (!matches) {
+    return undefined;
+  }
+
+  const paragraphs = lines.join('\n').trim().split(/\n\s*\n/);
+  const footers    = getFooter(split(paragraphs[paragraphs.length - 1]!)[0] ?? '') ? parseFooters(paragraphs.pop()!) : []; // eslint-disable-line no-magic-numbers
+
+  return {
+    type: matches[1]!,
+    scope: matches[2],
+    breaking: !!matches[3] || footers.some(footer => /^BREAKING[ -]CHANGE$/.test(footer.key)),
+    description: matches[4]!,
+    body: paragraphs.join('\n\n'),
+    footers,
+  };
+};
+
+// undefined if there is no commit to release
+export const getVersionBump = (lastTag: string, messages: string[], options?: VersionBumpOptions): VersionBump | undefined => {
+  const types    = options?.types ?? defaultVersionBumpTypes;
+  const position = Math.min(...messages.map(parseConventionalCommit).map(commit => {
+    if (commit?.breaking) {
+      return 0; // eslint-disable-line no-magic-numbers
+    }
+
+    const bump = commit ? types[commit.type] : undefined;
+    return bump ? versionBumps.indexOf(bump) : versionBumps.length;
+  }));
+  if (position >= versionBumps.length) {
+    return undefined;
+  }
+
+  const preMajor = options?.preMajor !== false && parseVersion(lastTag)?.fragments[0] === '0';
+  return versionBumps[Math.min(position + (preMajor ? 1 : 0), versionBumps.length - 1)]; // eslint-disable-line no-magic-numbers
+};
+
+export const getNextVersion = (lastTag: string, messages: string[], options?: VersionBumpOptions): string | undefined => {
+  const bump = getVersionBump(lastTag, messages, options);
+  return bump ? generateNewVersion(lastTag, versionBumps.indexOf(bump)) : undefined;
+};
+
 // eslint-disable-next-line no-magic-numbers
 export const arrayChunk = <T>(array: T[], size = 100): T[][] => {
   const result: T[][] = [];
@@ -207,6 +370,25 @@ export const arrayChunk = <T>(array: T[], size = 100): T[][] => {
   return result;
 };
 
+// results are in input order
+export const mapWithConcurrency = async <T, R>(items: T[], concurrency: number, callback: (item: T, index: number) => Promise<R>): Promise<PromiseSettledResult<R>[]> => {
+  const results: PromiseSettledResult<R>[] = [];
+  let next                                 = 0;
+  const worker                             = async(): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await callback(items[index]!, index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  await Promise.all([...Array(Math.min(Math.max(concurrency, 1), items.length))].map(worker));
+  return results;
+};
+
 export const versionCompare = (version1: string, version2: string, checkDifferentLevel = true): number => {
   const splitVersion = (version: string): number[] => version.split('.').map(item => Number(item));
   // eslint-disable-next-line no-magic-numbers
@@ -225,6 +407,8 @@ export const versionCompare = (version1: string, version2: string, checkDifferen
   return compare(splitVersion(version1.replace(/^v/, '')), splitVersion(version2.replace(/^v/, '')));
 };
 
+export const findLastVersionTag = (tags: string[]): string | undefined => tags.filter(tag => /^v?\d+(\.\d+)*$/.test(tag)).sort(versionCompare).reverse()[0];
+
 // eslint-disable-next-line @typescript-eslint/no-explicit-any,@typescript-eslint/explicit-module-boundary-types
 export const mask = (value: any, target = 'token'): any => {
   Object.keys(value).forEach(key => {
@@ -253,10 +437,101 @@ export const replaceVariables = async(string: string, variables: { key: string;
   return replaced;
 };
 
+// secrets registered here are redacted by Command and masked by the runner
+// secrets passed to core.setSecret directly are not known here, so they are only masked by the runner
+export const setSecret = (secret: string): void => {
+  if (secret) {
+    secrets.add(secret);
+    setCoreSecret(secret);
+  }
+};
+
+export const getSecrets = (): string[] => [...secrets];
+
+export const redactSecrets = (value: string, additionalSecrets: string[] = []): string => uniqueArray([...secrets, ...additionalSecrets])
+  .filter(secret => !!secret)
+  .sort((secret1, secret2) => secret2.length - secret1.length)
+  .reduce((acc, secret) => replaceAll(acc, secret, '***'), value);
+
+// network errors which may succeed on retry
+export const isTransientGitError = (output: string): boolean =>
+  /RPC failed|early EOF|unexpected disconnect|remote end hung up unexpectedly|Could not resolve host|Failed to connect|Connection (timed out|reset|refused)|Operation timed out|gnutls_handshake|returned error: (429|5\d\d)|HTTP (429|5\d\d)/i.test(output);
+
+// pattern of .gitattributes (e.g. *.psd, /assets/**/*.bin)
+export const getGitAttributesPatternRegExp = (pattern: string): RegExp => {
+  const source = pattern.replace(/^\//, '').replace(/\*\*\/|\/\*\*$|\*|\?|\[!?[^\]]+\]|[.+^${}()|\\]/g, token => {
+    switch (token) {
+      case '**/':
+        return '(?:.*/)?';
+      case '/**':
+        return '/.*';
+      case '*':
+        return '[^/]*';
+      case '?':
+        return '[^/]';
+      default:
+        return token.startsWith('[') ? token.replace(/^\[!/, '[^') : `\\${token}`;
+    }
+  });
+  // pattern without slash matches at any level
+  return new RegExp(`^${pattern.includes('/') ? '' : '(?:.*/)?'}${source}$`);
+};
+
+export const getLfsPatterns = (rootDir: string): string[] => {
+  const filepath = path.resolve(rootDir, '.gitattributes');
+  if (!fs.existsSync(filepath)) {
+    return [];
+  }
+
+  return split(fs.readFileSync(filepath, 'utf8')).map(line => line.trim().split(/\s+/)).filter(([pattern, ...attributes]) => pattern && !pattern.startsWith('#') && attributes.includes('filter=lfs')).map(([pattern]) => pattern!);
+};
+
+export const isLfsTracked = (filepath: string, patterns: string[]): boolean => patterns.some(pattern => getGitAttributesPatternRegExp(pattern).test(filepath.replace(/\\/g, '/')));
+
+export const isLfsPointer = (content: Buffer): boolean => content.subarray(0, 100).toString('utf8').startsWith('version https://git-lfs.github.com/spec/v1\n'); // eslint-disable-line no-magic-numbers
+
+const getGitDir = (workDir: string): string | undefined => {
+  const dotGit = path.resolve(workDir, '.git');
+  if (!fs.existsSync(dotGit)) {
+    return undefined;
+  }
+
+  if (fs.statSync(dotGit).isDirectory()) {
+    return dotGit;
+  }
+
+  // submodule: "gitdir: ../.git/modules/name"
+  const matches = fs.readFileSync(dotGit, 'utf8').match(/^gitdir:\s*(.+?)\s*$/m);
+  return matches ? path.resolve(workDir, matches[1]!) : undefined;
+};
+
+// commit sha of HEAD of the working copy (e.g. submodule) without running git
+export const getHeadCommitSha = (workDir: string): string | undefined => {
+  const gitDir = getGitDir(workDir);
+  if (!gitDir || !fs.existsSync(path.resolve(gitDir, 'HEAD'))) {
+    return undefined;
+  }
+
+  const head = fs.readFileSync(path.resolve(gitDir, 'HEAD'), 'utf8').trim();
+  const ref  = head.match(/^ref:\s*(.+)$/)?.[1];
+  if (!ref) {
+    return /^[0-9a-f]{40,64}$/.test(head) ? head : undefined;
+  }
+
+  if (fs.existsSync(path.resolve(gitDir, ref))) {
+    return fs.readFileSync(path.resolve(gitDir, ref), 'utf8').trim();
+  }
+
+  const packedRefs = path.resolve(gitDir, 'packed-refs');
+  return fs.existsSync(packedRefs) ? split(fs.readFileSync(packedRefs, 'utf8')).map(line => line.split(' ')).find(([, name]) => name === ref)?.[0] : undefined;
+};
+
 export const isCommandDebug = (): boolean => getInput('UTILS_COMMAND_DEBUG') === 'true' || process.env.UTILS_COMMAND_DEBUG === 'true';
 
 export const isOutputDebug = (): boolean => getInput('UTILS_OUTPUT_DEBUG') === 'true' || process.env.UTILS_OUTPUT_DEBUG === 'true';
 
+export const isDryRun = (): boolean => getInput('UTILS_DRY_RUN') === 'true' || process.env.UTILS_DRY_RUN === 'true';
+
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export const objectGet = <T>(value: Record<string, any> | undefined | null, key: string, defaultValue?: T): T | undefined => {
   const keys = key.split('.');
@@ -1,12 +1,17 @@
 /* eslint-disable no-magic-numbers */
+import fs from 'fs';
+import os from 'os';
 import path from 'path';
-import { testEnv, getContext, testFs } from '@technote-space/github-action-test-helper';
+import { Logger } from '@technote-space/github-action-log-helper';
+import { testEnv, getContext, testFs, disableNetConnect, spyOnStdout } from '@technote-space/github-action-test-helper';
+import nock from 'nock';
 import { describe, expect, it, vi } from 'vitest';
 import { Utils } from '../src/index.js';
 
 const { getWorkspace, getActor, escapeRegExp, getRegExp, getPrefixRegExp, getSuffixRegExp, getPrBranch, getPrHeadRef } = Utils;
 const { parseVersion, normalizeVersion, isValidSemanticVersioning, isPrRef, getPrMergeRef, replaceAll, sleep }         = Utils;
 const { getBranch, getRefForUpdate, uniqueArray, getBuildInfo, split, getArrayInput, useNpm, getBoolValue }            = Utils;
+const { mapWithConcurrency, isLfsTracked, isLfsPointer, getHeadCommitSha, getOctokit }                                 = Utils;
 
 describe('getWorkspace', () => {
   testEnv();
@@ -560,3 +565,192 @@ describe('replaceAll', () => {
     expect(replaceAll('test1;test2\\;test3', /[^\\];/, '\\;')).toBe('test\\;test2\\;test3');
   });
 });
+
+describe('mapWithConcurrency', () => {
+  it('should limit concurrency', async() => {
+    let running    = 0;
+    let maxRunning = 0;
+    const callback = async(item: number): Promise<number> => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await sleep(item);
+      running--;
+      if (item === 5) {
+        throw new Error('test');
+      }
+
+      return item * 2;
+    };
+
+    expect(await mapWithConcurrency([20, 5, 1, 10], 2, callback)).toEqual([
+      { status: 'fulfilled', value: 40 },
+      { status: 'rejected', reason: new Error('test') },
+      { status: 'fulfilled', value: 2 },
+      { status: 'fulfilled', value: 20 },
+    ]);
+    expect(maxRunning).toBe(2);
+  });
+
+  it('should return empty', async() => {
+    expect(await mapWithConcurrency([], 2, async() => 1)).toEqual([]);
+  });
+});
+
+describe('isLfsTracked', () => {
+  const patterns = ['*.psd', '/assets/**', 'docs/*.pdf', 'image?.[pj]ng', 'data/**/*.bin'];
+
+  it('should return true', () => {
+    expect(isLfsTracked('test.psd', patterns)).toBe(true);
+    expect(isLfsTracked('dir/sub/test.psd', patterns)).toBe(true);
+    expect(isLfsTracked('assets/dir/test.txt', patterns)).toBe(true);
+    expect(isLfsTracked('docs/test.pdf', patterns)).toBe(true);
+    expect(isLfsTracked('dir/image1.png', patterns)).toBe(true);
+    expect(isLfsTracked('data/test.bin', patterns)).toBe(true);
+    expect(isLfsTracked('data\\a\\b\\test.bin', patterns)).toBe(true);
+  });
+
+  it('should return false', () => {
+    expect(isLfsTracked('test.psd.txt', patterns)).toBe(false);
+    expect(isLfsTracked('dir/assets/test.txt', patterns)).toBe(false);
+    expect(isLfsTracked('dir/docs/test.pdf', patterns)).toBe(false);
+    expect(isLfsTracked('docs/dir/test.pdf', patterns)).toBe(false);
+    expect(isLfsTracked('image10.png', patterns)).toBe(false);
+    expect(isLfsTracked('image1.gif', patterns)).toBe(false);
+    expect(isLfsTracked('test.psd', [])).toBe(false);
+  });
+});
+
+describe('isLfsPointer', () => {
+  it('should return true', () => {
+    expect(isLfsPointer(Buffer.from('version https://git-lfs.github.com/spec/v1\noid sha256:abc\nsize 123\n'))).toBe(true);
+  });
+
+  it('should return false', () => {
+    expect(isLfsPointer(Buffer.from('test'))).toBe(false);
+    expect(isLfsPointer(Buffer.from([0, 1, 2, 255]))).toBe(false);
+  });
+});
+
+describe('getHeadCommitSha', () => {
+  const sha = '1234567890123456789012345678901234567890';
+  const createDir = (files: Record<string, string>): string => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'head-'));
+    Object.entries(files).forEach(([file, content]) => {
+      fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+      fs.writeFileSync(path.join(dir, file), content);
+    });
+    return dir;
+  };
+
+  it('should get detached head', () => {
+    const dir = createDir({ 'sub/.git': 'gitdir: ../modules/sub\n', 'modules/sub/HEAD': `${sha}\n` });
+    expect(getHeadCommitSha(path.join(dir, 'sub'))).toBe(sha);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should get head of branch', () => {
+    const dir = createDir({ '.git/HEAD': 'ref: refs/heads/main\n', '.git/refs/heads/main': `${sha}\n` });
+    expect(getHeadCommitSha(dir)).toBe(sha);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should get head from packed refs', () => {
+    const dir = createDir({ '.git/HEAD': 'ref: refs/heads/main\n', '.git/packed-refs': `# pack-refs with: peeled fully-peeled sorted\n${sha} refs/heads/main\n` });
+    expect(getHeadCommitSha(dir)).toBe(sha);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should return undefined', () => {
+    const dir = createDir({ 'test/.git': 'test', 'test2/.git/HEAD': 'ref: refs/heads/main\n', 'test3/.git/HEAD': 'test', 'test4/.git/test': '' });
+    expect(getHeadCommitSha(dir)).toBeUndefined();
+    expect(getHeadCommitSha(path.join(dir, 'test'))).toBeUndefined();
+    expect(getHeadCommitSha(path.join(dir, 'test2'))).toBeUndefined();
+    expect(getHeadCommitSha(path.join(dir, 'test3'))).toBeUndefined();
+    expect(getHeadCommitSha(path.join(dir, 'test4'))).toBeUndefined();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
+
+describe('getOctokit with throttle', () => {
+  disableNetConnect(nock);
+  testEnv();
+
+  const logger  = new Logger();
+  const octokit = getOctokit('token', { throttle: { delay: 1, logger } });
+  const getRepo = async(): Promise<string> => (await octokit.rest.repos.get({ owner: 'hello', repo: 'world' })).data.name;
+
+  it('should retry secondary rate limited request', async() => {
+    const mockStdout = spyOnStdout();
+    nock('https://api.github.com')
+      .get('/repos/hello/world')
+      .reply(403, { message: 'You have exceeded a secondary rate limit.' }, { 'retry-after': '0' })
+      .get('/repos/hello/world')
+      .reply(200, { name: 'world' });
+
+    expect(await getRepo()).toBe('world');
+    expect(mockStdout).toBeCalledTimes(1);
+    expect(mockStdout.mock.calls[0][0]).toContain('::warning::Retrying in 0ms... (1/3) [GET /repos/{owner}/{repo}]');
+  });
+
+  it('should retry rate limited request', async() => {
+    nock('https://api.github.com')
+      .get('/repos/hello/world')
+      .reply(429, { message: 'API rate limit exceeded' }, { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': `${Math.floor(Date.now() / 1000)}` })
+      .get('/repos/hello/world')
+      .reply(200, { name: 'world' });
+
+    expect(await getRepo()).toBe('world');
+  });
+
+  it('should retry server error', async() => {
+    nock('https://api.github.com')
+      .get('/repos/hello/world')
+      .times(3)
+      .reply(502, { message: 'Bad Gateway' })
+      .get('/repos/hello/world')
+      .reply(200, { name: 'world' });
+
+    expect(await getRepo()).toBe('world');
+  });
+
+  it('should throw error', async() => {
+    nock('https://api.github.com')
+      .get('/repos/hello/world')
+      .reply(404, { message: 'Not Found' })
+      .get('/repos/hello/world')
+      .times(4)
+      .reply(500, { message: 'Server Error' })
+      .get('/repos/hello/world')
+      .reply(403, { message: 'API rate limit exceeded' }, { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': `${Math.floor(Date.now() / 1000) + 3600}` })
+      .get('/repos/hello/world')
+      .reply(403, { message: 'Forbidden' });
+
+    await expect(getRepo()).rejects.toThrow('Not Found');
+    await expect(getRepo()).rejects.toThrow('Server Error');
+    await expect(getRepo()).rejects.toThrow('API rate limit exceeded');
+    await expect(getRepo()).rejects.toThrow('Forbidden');
+  });
+
+  it('should wait until rate limit is reset', async() => {
+    const mockStdout = spyOnStdout();
+    nock('https://api.github.com')
+      .get('/repos/hello/world')
+      .reply(200, { name: 'world' }, { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': `${Math.floor(Date.now() / 1000) + 1}` })
+      .get('/repos/hello/world')
+      .reply(200, { name: 'world' });
+
+    expect(await getRepo()).toBe('world');
+    expect(await getRepo()).toBe('world');
+    expect(mockStdout).toBeCalledTimes(1);
+    expect(mockStdout.mock.calls[0][0]).toMatch(/^::warning::API rate limit exceeded\. Waiting \d+ms\.\.\. \[GET \/repos\/{owner}\/{repo}]/);
+  });
+
+  it('should not throttle by default', async() => {
+    nock('https://api.github.com')
+      .get('/repos/hello/world')
+      .reply(502, { message: 'Bad Gateway' });
+
+    await expect(getOctokit('token').rest.repos.get({ owner: 'hello', repo: 'world' })).rejects.toThrow('Bad Gateway');
+    expect(getOctokit('token', { throttle: true }).rest.repos.get).toBeDefined();
+  });
+});